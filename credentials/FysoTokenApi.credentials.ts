@@ -0,0 +1,45 @@
+import type {
+  IAuthenticateGeneric,
+  ICredentialTestRequest,
+  ICredentialType,
+  INodeProperties,
+} from 'n8n-workflow';
+
+export class FysoTokenApi implements ICredentialType {
+  name = 'fysoTokenApi';
+  displayName = 'Fyso Token API';
+  icon = 'file:fyso.svg' as const;
+  documentationUrl = 'https://docs.fyso.dev';
+  authenticate: IAuthenticateGeneric = {
+    type: 'generic',
+    properties: {
+      headers: {
+        Authorization: '=Bearer {{$credentials.apiKey}}',
+      },
+    },
+  };
+  test: ICredentialTestRequest = {
+    request: {
+      baseURL: '={{$credentials.apiUrl}}',
+      url: '/api/metadata/entities',
+    },
+  };
+  properties: INodeProperties[] = [
+    {
+      displayName: 'API Key',
+      name: 'apiKey',
+      type: 'string',
+      typeOptions: { password: true },
+      default: '',
+      required: true,
+      description: 'A tenant-scoped API key or service token created in the Fyso tenant settings',
+    },
+    {
+      displayName: 'API URL',
+      name: 'apiUrl',
+      type: 'string',
+      default: 'https://api.fyso.dev',
+      required: true,
+    },
+  ];
+}
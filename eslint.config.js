@@ -1,3 +1,13 @@
 const { config } = require('@n8n/node-cli/eslint');
 
-module.exports = config;
+module.exports = [
+  ...config,
+  {
+    // Tests run under plain Node, not inside n8n, so they may use its modules and globals.
+    files: ['test/**/*.ts'],
+    rules: {
+      '@n8n/community-nodes/no-restricted-globals': 'off',
+      '@n8n/community-nodes/no-restricted-imports': 'off',
+    },
+  },
+];
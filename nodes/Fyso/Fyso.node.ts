@@ -3,63 +3,595 @@ import type {
   IExecuteFunctions,
   ILoadOptionsFunctions,
   INodeExecutionData,
-  INodeListSearchResult,
+  INodeProperties,
+  INodePropertyOptions,
   INodeType,
   INodeTypeDescription,
-  JsonObject,
   ResourceMapperField,
   ResourceMapperFields,
+  ResourceMapperValue,
 } from 'n8n-workflow';
-import { ApplicationError, NodeApiError, NodeOperationError } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 
-// ─── Auth helpers ─────────────────────────────────────────────────────────────
+import type {
+  FysoAggregateFunction,
+  FysoBulkEntry,
+  FysoBulkOperation,
+  FysoBulkResult,
+  FysoClientOptions,
+  FysoEntity,
+  FysoField,
+  FysoFieldInput,
+  FysoFieldOption,
+  FysoFilter,
+  FysoListQuery,
+  FysoTenant,
+} from '../shared/FysoClient';
+import { DEFAULT_RETRY_POLICY, FysoClient, getTenantParameter } from '../shared/FysoClient';
+import { authenticationProperty, fysoCredentials, listSearch, tenantProperty } from '../shared/FysoDescription';
 
-async function fysoLogin(baseUrl: string, email: string, password: string): Promise<string> {
-  const res = await fetch(`${baseUrl}/api/auth/login`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ email, password }),
-  });
-  const data = (await res.json()) as { success: boolean; data?: { token: string }; error?: string };
-  if (!data.success || !data.data?.token) {
-    throw new ApplicationError(`Fyso authentication failed: ${data.error ?? 'invalid credentials'}`);
+// ─── Shared properties ────────────────────────────────────────────────────────
+
+const fieldTypeOptions: INodePropertyOptions[] = [
+  { name: 'Boolean', value: 'boolean' },
+  { name: 'Currency', value: 'currency' },
+  { name: 'Date', value: 'date' },
+  { name: 'Date & Time', value: 'datetime' },
+  { name: 'Email', value: 'email' },
+  { name: 'File', value: 'file' },
+  { name: 'JSON', value: 'json' },
+  { name: 'Multi-Select', value: 'multiselect' },
+  { name: 'Number', value: 'number' },
+  { name: 'Relation', value: 'relation' },
+  { name: 'Select', value: 'select' },
+  { name: 'Text', value: 'text' },
+  { name: 'URL', value: 'url' },
+];
+
+const selectOptionsProperty: INodeProperties = {
+  displayName: 'Select Options',
+  name: 'selectOptions',
+  type: 'fixedCollection',
+  placeholder: 'Add Option',
+  default: {},
+  typeOptions: { multipleValues: true },
+  options: [
+    {
+      displayName: 'Option',
+      name: 'options',
+      values: [
+        {
+          displayName: 'Value',
+          name: 'value',
+          type: 'string',
+          default: '',
+        },
+        {
+          displayName: 'Label',
+          name: 'label',
+          type: 'string',
+          default: '',
+          description: 'Shown in the Fyso UI. Defaults to the value.',
+        },
+      ],
+    },
+  ],
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function getFieldInput(fields: IDataObject): FysoFieldInput {
+  const input: FysoFieldInput = {};
+  if (fields.fieldKey) input.fieldKey = fields.fieldKey as string;
+  if (fields.name) input.name = fields.name as string;
+  if (fields.fieldType) input.fieldType = fields.fieldType as string;
+  if (fields.isRequired !== undefined) input.isRequired = fields.isRequired as boolean;
+  const selectOptions = (fields.selectOptions as { options?: FysoFieldOption[] } | undefined)?.options;
+  if (selectOptions?.length) {
+    input.config = {
+      options: selectOptions.map(({ value, label }) => ({ value, label: label || value })),
+    };
   }
-  return data.data.token;
+  if (fields.relatedEntity) input.config = { ...input.config, relatedEntity: fields.relatedEntity as string };
+  return input;
 }
 
-async function fysoSelectTenant(baseUrl: string, sessionToken: string, tenantId: string): Promise<string> {
-  const res = await fetch(`${baseUrl}/api/auth/tenants/${tenantId}/select`, {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${sessionToken}` },
-  });
-  const data = (await res.json()) as { success: boolean; data?: { token: string }; error?: string };
-  if (!data.success || !data.data?.token) {
-    throw new ApplicationError(`Fyso tenant selection failed: ${data.error ?? 'unknown error'}`);
-  }
-  return data.data.token;
+function getClientOptions(ctx: IExecuteFunctions, itemIndex: number): FysoClientOptions {
+  const options = ctx.getNodeParameter('options', itemIndex, {}) as IDataObject;
+  return {
+    retry: {
+      maxAttempts: (options.maxAttempts as number | undefined) ?? DEFAULT_RETRY_POLICY.maxAttempts,
+      baseDelayMs: (options.retryDelay as number | undefined) ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    },
+  };
 }
 
-async function getAuth(
-  ctx: IExecuteFunctions | ILoadOptionsFunctions,
-  tenantId?: string,
-): Promise<{ baseUrl: string; token: string }> {
-  const creds = await ctx.getCredentials('fysoApi');
-  const baseUrl = (creds.apiUrl as string).replace(/\/$/, '');
-  const sessionToken = await fysoLogin(baseUrl, creds.email as string, creds.password as string);
-  if (!tenantId) return { baseUrl, token: sessionToken };
-  const tenantToken = await fysoSelectTenant(baseUrl, sessionToken, tenantId);
-  return { baseUrl, token: tenantToken };
+function getListQuery(ctx: IExecuteFunctions, itemIndex: number): FysoListQuery {
+  const filters = ctx.getNodeParameter('filters', itemIndex, {}) as { conditions?: FysoFilter[] };
+  const sortField = ctx.getNodeParameter('sortField', itemIndex, '') as string;
+  return {
+    filters: (filters.conditions ?? []).filter((c) => c.field),
+    sort: sortField || undefined,
+    sortDirection: sortField
+      ? (ctx.getNodeParameter('sortDirection', itemIndex, 'asc') as 'asc' | 'desc')
+      : undefined,
+    fields: ctx.getNodeParameter('returnFields', itemIndex, []) as string[],
+  };
+}
+
+function omitEmpty(body: IDataObject): IDataObject {
+  return Object.fromEntries(
+    Object.entries(body).filter(([, value]) => value !== undefined && value !== null && value !== ''),
+  ) as IDataObject;
+}
+
+/** How many levels of relations to expand into nested records; 0 leaves them as IDs. */
+function getExpandDepth(ctx: IExecuteFunctions, itemIndex: number): number {
+  if (!ctx.getNodeParameter('expandRelations', itemIndex, false)) return 0;
+  return ctx.getNodeParameter('expandDepth', itemIndex, 1) as number;
+}
+
+/**
+ * Whether deletes remove records for good (`true`) or move them to the trash (`false`). Nodes from
+ * version 1 keep sending a plain DELETE until a mode is picked, leaving it to Fyso (`undefined`).
+ */
+function isPermanentDelete(ctx: IExecuteFunctions, itemIndex: number): boolean | undefined {
+  const fallback = ctx.getNode().typeVersion < 1.1 ? 'server' : 'soft';
+  const mode = ctx.getNodeParameter('deleteMode', itemIndex, fallback) as string;
+  return mode === 'server' ? undefined : mode === 'permanent';
+}
+
+interface BatchItem {
+  itemIndex: number;
+  tenantId: string;
+  entityName: string;
+  entry: FysoBulkEntry;
+}
+
+/**
+ * Runs create / update / delete in bulk: consecutive items sharing a tenant and entity
+ * are grouped into batches of `batchSize`, and each item still gets its own result.
+ */
+async function executeBatched(
+  ctx: IExecuteFunctions,
+  operation: FysoBulkOperation,
+  batchSize: number,
+  concurrency: number,
+): Promise<INodeExecutionData[]> {
+  const items = ctx.getInputData();
+  const output = new Array<INodeExecutionData>(items.length);
+  const pending: BatchItem[] = [];
+  const partial = operation === 'update' && ctx.getNodeParameter('updateMode', 0, 'replace') === 'patch';
+  const permanent = operation === 'delete' ? isPermanentDelete(ctx, 0) : undefined;
+
+  const fail = (itemIndex: number, error: Error) => {
+    if (!ctx.continueOnFail()) throw error;
+    output[itemIndex] = { json: { error: error.message }, pairedItem: itemIndex };
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      const tenantId = (ctx.getNodeParameter('tenantId', i, { value: '' }) as { value: string }).value;
+      const entityName = (ctx.getNodeParameter('entityName', i) as { value: string }).value;
+      const entry: FysoBulkEntry = {};
+      if (operation !== 'create') entry.id = ctx.getNodeParameter('recordId', i) as string;
+      pending.push({ itemIndex: i, tenantId, entityName, entry });
+    } catch (error) {
+      fail(i, error as Error);
+    }
+  }
+
+  const clients = new Map<string, FysoClient>();
+  for (let start = 0; start < pending.length; ) {
+    const { tenantId, entityName } = pending[start];
+    let end = start + 1;
+    while (
+      end < pending.length &&
+      end - start < batchSize &&
+      pending[end].tenantId === tenantId &&
+      pending[end].entityName === entityName
+    ) {
+      end++;
+    }
+    const batch = pending.slice(start, end);
+    start = end;
+
+    let client = clients.get(tenantId);
+    if (!client) {
+      client = new FysoClient(ctx, tenantId, getClientOptions(ctx, batch[0].itemIndex));
+      clients.set(tenantId, client);
+    }
+
+    // Record values are prepared per item, so one bad item does not fail the whole batch.
+    const ready: BatchItem[] = [];
+    for (const item of batch) {
+      try {
+        if (operation === 'delete' && !item.entry.id?.trim()) {
+          throw new NodeOperationError(ctx.getNode(), 'Cannot delete a record without an ID', { itemIndex: item.itemIndex });
+        }
+        if (operation !== 'delete') {
+          const { skipEmptyValues } = ctx.getNodeParameter('options', item.itemIndex, {}) as IDataObject;
+          const skipEmpty = operation === 'update' && skipEmptyValues === true;
+          item.entry.data = await getRecordBody(ctx, client, entityName, item.itemIndex, operation, skipEmpty);
+        }
+        ready.push(item);
+      } catch (error) {
+        fail(item.itemIndex, error as Error);
+      }
+    }
+    if (ready.length === 0) continue;
+
+    let batchResults: FysoBulkResult[];
+    // Deleted records are output as they were last seen.
+    const lastStates = new Map<string, IDataObject>();
+    try {
+      if (operation === 'delete') {
+        const ids = ready.map((b) => b.entry.id as string);
+        const records = await client.listRecords(entityName, {
+          filters: [{ field: 'id', operator: 'in', value: ids.join(',') }],
+          limit: ids.length,
+        });
+        for (const record of records) lastStates.set(String(record.id), record);
+      }
+      batchResults = await client.bulkRecords(entityName, operation, ready.map((b) => b.entry), {
+        concurrency,
+        partial,
+        permanent,
+      });
+    } catch (error) {
+      for (const { itemIndex } of ready) fail(itemIndex, error as Error);
+      continue;
+    }
+
+    ready.forEach(({ itemIndex, entry }, index) => {
+      const result = batchResults[index];
+      if (!result.success) {
+        fail(
+          itemIndex,
+          new NodeOperationError(ctx.getNode(), result.error ?? `Failed to ${operation} record`, { itemIndex }),
+        );
+        return;
+      }
+      const json =
+        operation === 'delete'
+          ? { success: true, id: entry.id, permanent, record: lastStates.get(entry.id as string) }
+          : result.record ?? {};
+      output[itemIndex] = { json, pairedItem: itemIndex };
+    });
+  }
+
+  return output;
 }
 
 function fysoTypeToN8n(fieldType: string): ResourceMapperField['type'] {
   switch (fieldType) {
-    case 'number': return 'number';
+    case 'number':
+    case 'currency': return 'number';
     case 'boolean': return 'boolean';
-    case 'date': return 'dateTime';
+    case 'date':
+    case 'datetime': return 'dateTime';
+    case 'select': return 'options';
+    case 'multiselect': return 'array';
+    case 'json': return 'object';
+    case 'url': return 'url';
     default: return 'string';
   }
 }
 
+function optionValues(field: FysoField): string[] | undefined {
+  return field.config?.options?.map((o) => (typeof o === 'string' ? o : o.value));
+}
+
+/**
+ * A field's label in the resource mapper. Relations take the related record's ID, or `field=value`
+ * to look it up. n8n edits `array` fields as JSON without a list of choices, so the options of a
+ * multi-select are named in its label instead.
+ */
+function mapperDisplayName(field: FysoField): string {
+  if (field.fieldType === 'relation') return `${field.name} (ID or field=value)`;
+  const options = field.fieldType === 'multiselect' ? optionValues(field) : undefined;
+  return options?.length ? `${field.name} (any of ${options.join(', ')})` : field.name;
+}
+
+/**
+ * Converts one mapped value to the format Fyso validates against: numbers and booleans
+ * instead of strings, `YYYY-MM-DD` dates, ISO 8601 date-times, arrays and parsed JSON.
+ */
+function coerceFieldValue(ctx: IExecuteFunctions, field: FysoField, value: unknown, itemIndex: number): unknown {
+  const fail = (expected: string) => {
+    throw new NodeOperationError(
+      ctx.getNode(),
+      `Field "${field.name}" expects ${expected}, got ${JSON.stringify(value)}`,
+      { itemIndex },
+    );
+  };
+  const parseJson = (text: string, expected: string): unknown => {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return fail(expected);
+    }
+  };
+
+  switch (field.fieldType) {
+    case 'number':
+    case 'currency': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (!Number.isFinite(number)) fail('a number');
+      return number;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(text)) return true;
+      if (['false', '0', 'no'].includes(text)) return false;
+      return fail('true or false');
+    }
+    case 'date':
+    case 'datetime': {
+      // Calendar dates are kept as written, so a time zone offset cannot move them a day.
+      if (field.fieldType === 'date' && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+        return value.slice(0, 10);
+      }
+      const date = new Date(value as string | number);
+      if (Number.isNaN(date.getTime())) fail('a date');
+      return field.fieldType === 'date' ? date.toISOString().slice(0, 10) : date.toISOString();
+    }
+    case 'select': {
+      const allowed = optionValues(field);
+      if (allowed && !allowed.includes(String(value))) fail(`one of ${allowed.join(', ')}`);
+      return String(value);
+    }
+    case 'multiselect': {
+      let values = value;
+      if (typeof value === 'string') {
+        values = value.trim().startsWith('[')
+          ? parseJson(value, 'a JSON array of options')
+          : value.split(',').map((v) => v.trim()).filter(Boolean);
+      }
+      if (!Array.isArray(values)) return fail('a list of options');
+      const allowed = optionValues(field);
+      const unknown = allowed && values.filter((v) => !allowed.includes(String(v)));
+      if (unknown?.length) fail(`options from ${allowed?.join(', ')}`);
+      return values.map(String);
+    }
+    case 'json':
+      return typeof value === 'string' ? parseJson(value, 'valid JSON') : value;
+    default:
+      return value;
+  }
+}
+
+/** Coerces every mapped value with a known field type; empty values are sent as they are. */
+function coerceRecord(ctx: IExecuteFunctions, fields: FysoField[], body: IDataObject, itemIndex: number): IDataObject {
+  const coerced: IDataObject = { ...body };
+  for (const field of fields) {
+    const value = body[field.fieldKey];
+    if (value === undefined || value === null || value === '') continue;
+    coerced[field.fieldKey] = coerceFieldValue(ctx, field, value, itemIndex) as IDataObject[keyof IDataObject];
+  }
+  return coerced;
+}
+
+/** A field's type, options and whether it is required, e.g. `select: open | closed, required`. */
+function fieldDetails(field: FysoField): string {
+  const options = optionValues(field);
+  const details = [options?.length ? `${field.fieldType}: ${options.join(' | ')}` : field.fieldType];
+  if (field.isRequired) details.push('required');
+  return details.join(', ');
+}
+
+/** One entry per field, e.g. `status (select: open | closed, required)`, for agent-facing messages. */
+function describeFields(fields: FysoField[]): string {
+  return fields.map((f) => `${f.fieldKey} (${fieldDetails(f)})`).join('; ');
+}
+
+/** Record values from the resource mapper, or from the JSON input meant for AI agents and expressions. */
+function getFieldValues(ctx: IExecuteFunctions, itemIndex: number): IDataObject {
+  if (ctx.getNodeParameter('dataMode', itemIndex, 'mapper') !== 'json') {
+    const value = ((ctx.getNodeParameter('fields', itemIndex) as ResourceMapperValue).value ?? {}) as IDataObject;
+    // Optional fields an agent left empty are not set, rather than sent as empty values.
+    return isToolMode(ctx) ? omitEmpty(value) : value;
+  }
+
+  let value = ctx.getNodeParameter('fieldsJson', itemIndex, {}) as unknown;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value || '{}');
+    } catch {
+      value = undefined;
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new NodeOperationError(ctx.getNode(), 'Fields (JSON) must be a JSON object of field names and values', {
+      itemIndex,
+      description: 'For example {"name": "Ana", "age": 31}',
+    });
+  }
+  return value as IDataObject;
+}
+
+/** Keys the entity does not have, and required fields left empty when `requireAll` is set. */
+function fieldNameIssues(
+  fields: FysoField[],
+  body: IDataObject,
+  requireAll: boolean,
+): { unknown: string[]; missing: string[] } {
+  const known = new Set(fields.map((f) => f.fieldKey));
+  return {
+    unknown: Object.keys(body).filter((key) => !known.has(key)),
+    missing: requireAll
+      ? fields
+          .filter((f) => f.isRequired && [undefined, null, ''].includes(body[f.fieldKey] as string | null | undefined))
+          .map((f) => f.fieldKey)
+      : [],
+  };
+}
+
+/**
+ * Rejects JSON input naming fields the entity does not have, or leaving out required ones
+ * on create, and lists the entity's fields so an agent can correct its call.
+ */
+function checkFieldNames(
+  ctx: IExecuteFunctions,
+  fields: FysoField[],
+  body: IDataObject,
+  itemIndex: number,
+  requireAll: boolean,
+): void {
+  const { unknown, missing } = fieldNameIssues(fields, body, requireAll);
+  if (unknown.length === 0 && missing.length === 0) return;
+
+  const problems: string[] = [];
+  if (unknown.length) problems.push(`unknown ${unknown.join(', ')}`);
+  if (missing.length) problems.push(`missing required ${missing.join(', ')}`);
+  throw new NodeOperationError(ctx.getNode(), `Invalid fields: ${problems.join('; ')}`, {
+    itemIndex,
+    description: `Valid fields: ${describeFields(fields)}`,
+  });
+}
+
+/** Reads an item's record values, checks and coerces them, then resolves relation lookups. */
+async function getRecordBody(
+  ctx: IExecuteFunctions,
+  client: FysoClient,
+  entityName: string,
+  itemIndex: number,
+  operation: string,
+  skipEmpty = false,
+): Promise<IDataObject> {
+  const value = getFieldValues(ctx, itemIndex);
+  const fields = await client.getEntityFields(entityName);
+  if (ctx.getNodeParameter('dataMode', itemIndex, 'mapper') === 'json' && fields.length) {
+    checkFieldNames(ctx, fields, value, itemIndex, operation === 'create');
+  }
+  const body = coerceRecord(ctx, fields, skipEmpty ? omitEmpty(value) : value, itemIndex);
+  return await client.resolveRelations(entityName, body);
+}
+
+/**
+ * Checks an item's record values without writing anything: unknown keys, missing required
+ * fields, types, select options and relation lookups. Every problem is reported, not just the first.
+ */
+async function validateRecordBody(
+  ctx: IExecuteFunctions,
+  client: FysoClient,
+  entityName: string,
+  itemIndex: number,
+  requireAll: boolean,
+  skipEmpty = false,
+): Promise<IDataObject> {
+  const value = getFieldValues(ctx, itemIndex);
+  const body = skipEmpty ? omitEmpty(value) : value;
+  const fields = await client.getEntityFields(entityName);
+  const errors: IDataObject[] = [];
+
+  const { unknown, missing } = fieldNameIssues(fields, body, requireAll);
+  for (const field of unknown) errors.push({ field, message: 'The entity has no such field' });
+  for (const field of missing) errors.push({ field, message: 'The field is required' });
+
+  const data: IDataObject = { ...body };
+  for (const field of fields) {
+    const fieldValue = body[field.fieldKey];
+    if (fieldValue === undefined || fieldValue === null || fieldValue === '') continue;
+    try {
+      data[field.fieldKey] = coerceFieldValue(ctx, field, fieldValue, itemIndex) as IDataObject[keyof IDataObject];
+    } catch (error) {
+      errors.push({ field: field.fieldKey, message: (error as Error).message });
+    }
+  }
+  if (errors.length === 0) {
+    try {
+      Object.assign(data, await client.resolveRelations(entityName, data));
+    } catch (error) {
+      errors.push({ message: (error as Error).message });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, data };
+}
+
+// ─── AI tool mode ─────────────────────────────────────────────────────────────
+
+/** When an AI agent calls the node, n8n runs it as a `<type>Tool` variant. */
+function isToolMode(ctx: IExecuteFunctions | ILoadOptionsFunctions): boolean {
+  return ctx.getNode().type.endsWith('Tool');
+}
+
+// `$fromAI()` types for Fyso field types; the rest are asked for as text and converted before sending.
+const FROM_AI_TYPES: Record<string, string> = { number: 'number', currency: 'number', boolean: 'boolean', json: 'json' };
+
+/**
+ * The `$fromAI()` expression a field of the record form is pre-filled with when the node is a tool,
+ * so the agent is asked for each of the entity's fields by key, described by its type, options and
+ * whether it is required. Optional fields are asked for as text that may be left empty.
+ */
+function fromAiExpression(field: FysoField): string {
+  // Quotes and backslashes are escaped; braces and line breaks would end the expression early.
+  const quote = (text: string) => `'${text.replace(/[{}\r\n]/g, ' ').replace(/[\\']/g, '\\$&')}'`;
+  const key = field.fieldKey.replace(/[^\w-]/g, '_').slice(0, 64);
+  let description = `${field.name} (${fieldDetails(field)})`;
+  if (field.fieldType === 'relation') description += ': the related record\'s ID, or field=value to look it up';
+  const args = field.isRequired
+    ? [key, description, FROM_AI_TYPES[field.fieldType] ?? 'string']
+    : [key, `${description}. Leave empty to not set it.`, 'string', ''];
+  return `={{ $fromAI(${args.map(quote).join(', ')}) }}`;
+}
+
+/** Tenants, and each tenant's entities, listed once per execution to resolve every item's target. */
+interface ToolTargetLists {
+  tenants?: Promise<FysoTenant[]>;
+  entities: Map<string, Promise<FysoEntity[]>>;
+}
+
+/**
+ * Agents tend to pass a tenant slug or name, or an entity's display name. Resolves those to
+ * the tenant ID and entity name Fyso expects, or fails listing the valid choices.
+ */
+async function resolveToolTarget(
+  ctx: IExecuteFunctions,
+  lists: ToolTargetLists,
+  tenantId: string,
+  entityName: string,
+  itemIndex: number,
+): Promise<{ tenantId: string; entityName: string }> {
+  const matches = (value: string, ...candidates: Array<string | undefined>) =>
+    candidates.some((c) => c !== undefined && c.toLowerCase() === value.trim().toLowerCase());
+
+  // API keys are scoped to one tenant and cannot list the others.
+  if (tenantId && ctx.getNodeParameter('authentication', itemIndex, 'password') === 'password') {
+    if (!lists.tenants) lists.tenants = new FysoClient(ctx).listTenants();
+    const tenants = await lists.tenants;
+    const tenant = tenants.find((t) => t.id === tenantId) ?? tenants.find((t) => matches(tenantId, t.slug, t.name));
+    if (!tenant) {
+      throw new NodeOperationError(ctx.getNode(), `Unknown tenant "${tenantId}"`, {
+        itemIndex,
+        description: `Available tenants: ${tenants.map((t) => `${t.slug} (${t.id})`).join(', ')}`,
+      });
+    }
+    tenantId = tenant.id;
+  }
+
+  if (entityName) {
+    let entityList = lists.entities.get(tenantId);
+    if (!entityList) {
+      entityList = new FysoClient(ctx, tenantId).listEntities();
+      lists.entities.set(tenantId, entityList);
+    }
+    const entities = await entityList;
+    const entity =
+      entities.find((e) => e.name === entityName) ?? entities.find((e) => matches(entityName, e.name, e.displayName));
+    if (!entity) {
+      throw new NodeOperationError(ctx.getNode(), `Unknown entity "${entityName}"`, {
+        itemIndex,
+        description: `Available entities: ${entities.map((e) => e.name).join(', ')}`,
+      });
+    }
+    entityName = entity.name;
+  }
+  return { tenantId, entityName };
+}
+
 // ─── Node ─────────────────────────────────────────────────────────────────────
 
 export class Fyso implements INodeType {
@@ -68,40 +600,35 @@ export class Fyso implements INodeType {
     name: 'fyso',
     icon: 'file:fyso.svg',
     group: ['transform'],
-    version: 1,
+    // 1.1 defaults Delete Mode to Soft Delete; version 1 nodes keep Fyso's own default.
+    version: [1, 1.1],
+    defaultVersion: 1.1,
     subtitle: '={{$parameter["operation"] + " · " + $parameter["entityName"].value}}',
-    description: 'Create, read, update and delete records in Fyso',
+    description: 'Manage records, entity schemas and tenants in Fyso',
     defaults: { name: 'Fyso' },
     usableAsTool: true,
     inputs: ['main'],
     outputs: ['main'],
-    credentials: [{ name: 'fysoApi', required: true }],
+    credentials: fysoCredentials,
     properties: [
+      // ── Authentication ──────────────────────────────────────────────────────
+      authenticationProperty,
       // ── Tenant ──────────────────────────────────────────────────────────────
+      tenantProperty('The Fyso tenant that owns the data you want to operate on', {
+        operation: ['listTenants', 'createTenant'],
+      }),
+      // ── Resource ────────────────────────────────────────────────────────────
       {
-        displayName: 'Tenant',
-        name: 'tenantId',
-        type: 'resourceLocator',
-        default: { mode: 'list', value: '' },
-        required: true,
-        description: 'The Fyso tenant that owns the data you want to operate on',
-        hint: 'Each tenant is an isolated workspace with its own entities and records',
-        modes: [
-          {
-            displayName: 'List',
-            name: 'list',
-            type: 'list',
-            placeholder: 'Select a tenant...',
-            typeOptions: { searchListMethod: 'getTenants', searchable: true },
-          },
-          {
-            displayName: 'ID',
-            name: 'id',
-            type: 'string',
-            placeholder: 'e.g. 550e8400-e29b-41d4-a716-446655440000',
-            validation: [{ type: 'regex', properties: { regex: '.+', errorMessage: 'Enter a valid tenant ID' } }],
-          },
+        displayName: 'Resource',
+        name: 'resource',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          { name: 'Entity', value: 'entity' },
+          { name: 'Record', value: 'record' },
+          { name: 'Tenant', value: 'tenant' },
         ],
+        default: 'record',
       },
       // ── Operation ───────────────────────────────────────────────────────────
       {
@@ -109,15 +636,73 @@ export class Fyso implements INodeType {
         name: 'operation',
         type: 'options',
         noDataExpression: true,
+        displayOptions: { show: { resource: ['record'] } },
         options: [
+          { name: 'Aggregate', value: 'aggregate', action: 'Aggregate records' },
+          { name: 'Create or Update', value: 'upsert', action: 'Create or update a record' },
           { name: 'Create Record', value: 'create', action: 'Create a record' },
+          { name: 'Delete Many Records', value: 'deleteMany', action: 'Delete records matching filters' },
           { name: 'Delete Record', value: 'delete', action: 'Delete a record' },
+          { name: 'Download File', value: 'downloadFile', action: 'Download a file from a record' },
+          { name: 'Find One Record', value: 'findOne', action: 'Find the one record matching a search' },
           { name: 'Get Record', value: 'get', action: 'Get a record by ID' },
           { name: 'List Records', value: 'list', action: 'List records from an entity' },
+          { name: 'Restore Record', value: 'restore', action: 'Restore a deleted record' },
+          { name: 'Search Records', value: 'search', action: 'Search records by text' },
           { name: 'Update Record', value: 'update', action: 'Update a record' },
+          { name: 'Upload File', value: 'uploadFile', action: 'Upload a file to a record' },
         ],
         default: 'create',
       },
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        noDataExpression: true,
+        displayOptions: { show: { resource: ['entity'] } },
+        options: [
+          { name: 'Add Field', value: 'addField', action: 'Add a field to an entity' },
+          { name: 'Create Entity', value: 'createEntity', action: 'Create an entity' },
+          { name: 'Get Entity Schema', value: 'getEntity', action: 'Get an entity schema' },
+          { name: 'List Entities', value: 'listEntities', action: 'List entities in a tenant' },
+          { name: 'Remove Field', value: 'removeField', action: 'Remove a field from an entity' },
+          { name: 'Update Field', value: 'updateField', action: 'Update a field of an entity' },
+        ],
+        default: 'listEntities',
+      },
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        noDataExpression: true,
+        displayOptions: { show: { resource: ['tenant'] } },
+        options: [
+          { name: 'Create Tenant', value: 'createTenant', action: 'Create a tenant' },
+          { name: 'Get Tenant', value: 'getTenant', action: 'Get a tenant' },
+          { name: 'List Tenants', value: 'listTenants', action: 'List tenants the credential can access' },
+          { name: 'Select Tenant', value: 'selectTenant', action: 'Select a tenant' },
+        ],
+        default: 'listTenants',
+      },
+      // ── Tenant details (createTenant) ────────────────────────────────────────
+      {
+        displayName: 'Tenant Name',
+        name: 'tenantName',
+        type: 'string',
+        default: '',
+        required: true,
+        displayOptions: { show: { operation: ['createTenant'] } },
+        placeholder: 'e.g. Acme Clinic',
+      },
+      {
+        displayName: 'Slug',
+        name: 'tenantSlug',
+        type: 'string',
+        default: '',
+        displayOptions: { show: { operation: ['createTenant'] } },
+        description: 'URL-friendly identifier of the tenant. Leave empty to derive it from the name.',
+        placeholder: 'e.g. acme-clinic',
+      },
       // ── Entity ──────────────────────────────────────────────────────────────
       {
         displayName: 'Entity',
@@ -125,6 +710,11 @@ export class Fyso implements INodeType {
         type: 'resourceLocator',
         default: { mode: 'list', value: '' },
         required: true,
+        displayOptions: {
+          hide: {
+            operation: ['listEntities', 'createEntity', 'listTenants', 'getTenant', 'createTenant', 'selectTenant'],
+          },
+        },
         description: 'The Fyso entity (data model) to operate on, e.g. patients, orders, products',
         hint: 'Entities are the data models defined in your Fyso tenant',
         modes: [
@@ -143,18 +733,290 @@ export class Fyso implements INodeType {
           },
         ],
       },
-      // ── Record ID (get / update / delete) ────────────────────────────────────
+      // ── Entity schema (createEntity / addField / updateField / removeField) ──
+      {
+        displayName: 'Entity Name',
+        name: 'newEntityName',
+        type: 'string',
+        default: '',
+        required: true,
+        displayOptions: { show: { operation: ['createEntity'] } },
+        description: 'Unique key of the new entity, used in API paths',
+        placeholder: 'e.g. orders',
+      },
+      {
+        displayName: 'Additional Fields',
+        name: 'entityFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: { show: { operation: ['createEntity'] } },
+        options: [
+          {
+            displayName: 'Description',
+            name: 'description',
+            type: 'string',
+            default: '',
+          },
+          {
+            displayName: 'Display Name',
+            name: 'displayName',
+            type: 'string',
+            default: '',
+            description: 'Human-readable name shown in the Fyso UI',
+          },
+        ],
+      },
+      {
+        displayName: 'Field Key',
+        name: 'fieldKey',
+        type: 'string',
+        default: '',
+        required: true,
+        displayOptions: { show: { operation: ['addField'] } },
+        description: 'Unique key of the field within the entity, used in record payloads',
+        placeholder: 'e.g. email',
+      },
+      {
+        displayName: 'Field Name or ID',
+        name: 'schemaField',
+        type: 'options',
+        default: '',
+        required: true,
+        displayOptions: { show: { operation: ['updateField', 'removeField'] } },
+        description:
+          'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+        typeOptions: {
+          loadOptionsMethod: 'getFieldOptions',
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+        },
+      },
+      {
+        displayName: 'Display Name',
+        name: 'fieldName',
+        type: 'string',
+        default: '',
+        required: true,
+        displayOptions: { show: { operation: ['addField'] } },
+        description: 'Human-readable name of the field',
+      },
+      {
+        displayName: 'Field Type',
+        name: 'fieldType',
+        type: 'options',
+        default: 'text',
+        displayOptions: { show: { operation: ['addField'] } },
+        options: fieldTypeOptions,
+      },
+      {
+        displayName: 'Required',
+        name: 'isRequired',
+        type: 'boolean',
+        default: false,
+        displayOptions: { show: { operation: ['addField'] } },
+        description: 'Whether every record must have a value for this field',
+      },
+      {
+        ...selectOptionsProperty,
+        displayOptions: { show: { operation: ['addField'], fieldType: ['select', 'multiselect'] } },
+      },
+      {
+        displayName: 'Related Entity',
+        name: 'relatedEntity',
+        type: 'string',
+        default: '',
+        required: true,
+        placeholder: 'e.g. customers',
+        description: 'Name of the entity this relation points at',
+        displayOptions: { show: { operation: ['addField'], fieldType: ['relation'] } },
+      },
+      {
+        displayName: 'Update Fields',
+        name: 'fieldUpdates',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: { show: { operation: ['updateField'] } },
+        options: [
+          {
+            displayName: 'Display Name',
+            name: 'name',
+            type: 'string',
+            default: '',
+          },
+          {
+            displayName: 'Field Type',
+            name: 'fieldType',
+            type: 'options',
+            default: 'text',
+            options: fieldTypeOptions,
+          },
+          {
+            displayName: 'Required',
+            name: 'isRequired',
+            type: 'boolean',
+            default: false,
+            description: 'Whether every record must have a value for this field',
+          },
+          {
+            ...selectOptionsProperty,
+            description: 'Replaces the existing options of a select or multi-select field',
+          },
+        ],
+      },
+      // ── Record ID (get / update / delete / files) ────────────────────────────
       {
         displayName: 'Record ID',
         name: 'recordId',
         type: 'string',
         default: '',
         required: true,
-        displayOptions: { show: { operation: ['get', 'update', 'delete'] } },
+        displayOptions: { show: { operation: ['get', 'update', 'delete', 'restore', 'uploadFile', 'downloadFile'] } },
         description: 'The unique identifier (UUID) of the record to operate on',
         placeholder: 'e.g. 550e8400-e29b-41d4-a716-446655440000',
       },
-      // ── Fields via resourceMapper (create / update) ───────────────────────────
+      {
+        displayName: 'Update Mode',
+        name: 'updateMode',
+        type: 'options',
+        default: 'replace',
+        displayOptions: { show: { operation: ['update'] } },
+        options: [
+          {
+            name: 'Partial Update',
+            value: 'patch',
+            description: 'Send only the mapped fields with PATCH; all other fields keep their values',
+          },
+          {
+            name: 'Replace',
+            value: 'replace',
+            description: 'Send the record as a whole with PUT; fields that are not mapped may be cleared',
+          },
+        ],
+      },
+      // ── Delete (delete / deleteMany) ────────────────────────────────────────
+      {
+        displayName: 'Delete Mode',
+        name: 'deleteMode',
+        type: 'options',
+        default: 'soft',
+        displayOptions: { show: { operation: ['delete', 'deleteMany'], '@version': [{ _cnd: { gte: 1.1 } }] } },
+        options: [
+          {
+            name: 'Permanent',
+            value: 'permanent',
+            description: 'Remove the record for good. It cannot be restored.',
+          },
+          {
+            name: 'Soft Delete',
+            value: 'soft',
+            description: 'Move the record to the trash, from where Restore Record brings it back',
+          },
+        ],
+      },
+      {
+        displayName: 'Delete Mode',
+        name: 'deleteMode',
+        type: 'options',
+        default: 'server',
+        displayOptions: { show: { operation: ['delete', 'deleteMany'], '@version': [1] } },
+        options: [
+          {
+            name: 'Fyso Default',
+            value: 'server',
+            description: 'Send a plain DELETE and let Fyso decide, as before Delete Mode existed',
+          },
+          {
+            name: 'Permanent',
+            value: 'permanent',
+            description: 'Remove the record for good. It cannot be restored.',
+          },
+          {
+            name: 'Soft Delete',
+            value: 'soft',
+            description: 'Move the record to the trash, from where Restore Record brings it back',
+          },
+        ],
+      },
+      {
+        displayName: 'Max Records to Delete',
+        name: 'deleteLimit',
+        type: 'number',
+        default: 10,
+        required: true,
+        typeOptions: { minValue: 1 },
+        description: 'If more records match the filters, nothing is deleted and the item fails',
+        displayOptions: { show: { operation: ['deleteMany'] } },
+      },
+      // ── Files ───────────────────────────────────────────────────────────────
+      {
+        displayName: 'File Field Name or ID',
+        name: 'fileField',
+        type: 'options',
+        default: '',
+        required: true,
+        description:
+          'The file field of the record. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+        typeOptions: {
+          loadOptionsMethod: 'getFileFieldOptions',
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+        },
+        displayOptions: { show: { operation: ['uploadFile', 'downloadFile'] } },
+      },
+      {
+        displayName: 'Input Binary Field',
+        name: 'binaryPropertyName',
+        type: 'string',
+        default: 'data',
+        required: true,
+        hint: 'The name of the input binary field containing the file to be uploaded',
+        displayOptions: { show: { operation: ['uploadFile'] } },
+      },
+      {
+        displayName: 'Put Output File in Field',
+        name: 'binaryPropertyName',
+        type: 'string',
+        default: 'data',
+        required: true,
+        hint: 'The name of the output binary field to put the file in',
+        displayOptions: { show: { operation: ['downloadFile'] } },
+      },
+      // ── Fields via resourceMapper or JSON (create / update / upsert) ──────────
+      {
+        displayName: 'Data Mode',
+        name: 'dataMode',
+        type: 'options',
+        default: 'mapper',
+        displayOptions: { show: { operation: ['create', 'update', 'upsert'] } },
+        options: [
+          {
+            name: 'JSON',
+            value: 'json',
+            description: 'One JSON object of field names and values, e.g. filled in by an AI agent',
+          },
+          { name: 'Map Each Field', value: 'mapper', description: 'Set every field of the entity below' },
+        ],
+      },
+      {
+        displayName: 'Fields (JSON)',
+        name: 'fieldsJson',
+        type: 'json',
+        default: '{}',
+        required: true,
+        description:
+          'Record as a JSON object of field names and values, e.g. {"name": "Ana", "age": 31}. Unknown fields, missing required fields and values of the wrong type fail with a list of the valid fields.',
+        displayOptions: { show: { operation: ['create', 'update', 'upsert'], dataMode: ['json'] } },
+      },
+      {
+        displayName: 'Match On',
+        name: 'matchFields',
+        type: 'string',
+        default: '',
+        required: true,
+        placeholder: 'e.g. email',
+        description: 'Comma-separated fields that identify the record to update; when none matches, a record is created',
+        displayOptions: { show: { operation: ['upsert'], dataMode: ['json'] } },
+      },
       {
         displayName: 'Fields',
         name: 'fields',
@@ -162,19 +1024,27 @@ export class Fyso implements INodeType {
         default: { mappingMode: 'defineBelow', value: null },
         noDataExpression: true,
         required: true,
-        displayOptions: { show: { operation: ['create', 'update'] } },
+        displayOptions: { show: { operation: ['create', 'update', 'upsert'], dataMode: ['mapper'] } },
         typeOptions: {
-          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value', 'operation'],
           resourceMapper: {
             resourceMapperMethod: 'getEntityFields',
             mode: 'upsert',
             fieldWords: { singular: 'Field', plural: 'Fields' },
             addAllFields: true,
-            multiKeyMatch: false,
+            multiKeyMatch: true,
           },
         },
       },
       // ── List options ─────────────────────────────────────────────────────────
+      {
+        displayName: 'Return All',
+        name: 'returnAll',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to return all results or only up to a given limit',
+        displayOptions: { show: { operation: ['list'] } },
+      },
       {
         displayName: 'Limit',
         name: 'limit',
@@ -182,7 +1052,7 @@ export class Fyso implements INodeType {
         default: 50,
         description: 'Max number of results to return',
         typeOptions: { minValue: 1 },
-        displayOptions: { show: { operation: ['list'] } },
+        displayOptions: { show: { operation: ['list'], returnAll: [false] } },
       },
       {
         displayName: 'Offset',
@@ -191,8 +1061,232 @@ export class Fyso implements INodeType {
         default: 0,
         description: 'Number of records to skip before returning results. Use together with Limit for pagination.',
         typeOptions: { minValue: 0 },
+        displayOptions: { show: { operation: ['list'], returnAll: [false] } },
+      },
+      {
+        displayName: 'Page Size',
+        name: 'pageSize',
+        type: 'number',
+        default: 100,
+        description: 'Number of records to request per page while fetching all results',
+        typeOptions: { minValue: 1 },
+        displayOptions: { show: { operation: ['list'], returnAll: [true] } },
+      },
+      {
+        displayName: 'Max Records',
+        name: 'maxRecords',
+        type: 'number',
+        default: 0,
+        description: 'Stop paginating after this many records. Use 0 for no cap.',
+        typeOptions: { minValue: 0 },
+        displayOptions: { show: { operation: ['list'], returnAll: [true] } },
+      },
+      {
+        displayName: 'Filters',
+        name: 'filters',
+        type: 'fixedCollection',
+        placeholder: 'Add Condition',
+        default: {},
+        typeOptions: { multipleValues: true },
+        description: 'Only use records matching all of these conditions',
+        displayOptions: { show: { operation: ['list', 'aggregate', 'deleteMany'] } },
+        options: [
+          {
+            displayName: 'Conditions',
+            name: 'conditions',
+            values: [
+              {
+                displayName: 'Field Name or ID',
+                name: 'field',
+                type: 'options',
+                default: '',
+                description:
+                  'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+                typeOptions: {
+                  loadOptionsMethod: 'getFieldOptions',
+                  loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+                },
+              },
+              {
+                displayName: 'Operator',
+                name: 'operator',
+                type: 'options',
+                default: 'eq',
+                options: [
+                  { name: 'Contains', value: 'contains' },
+                  { name: 'Equals', value: 'eq' },
+                  { name: 'Greater Than', value: 'gt' },
+                  { name: 'Greater Than or Equal', value: 'gte' },
+                  { name: 'In List', value: 'in', description: 'Value is a comma-separated list' },
+                  { name: 'Is Empty', value: 'isNull' },
+                  { name: 'Is Not Empty', value: 'notNull' },
+                  { name: 'Less Than', value: 'lt' },
+                  { name: 'Less Than or Equal', value: 'lte' },
+                  { name: 'Not Equals', value: 'neq' },
+                ],
+              },
+              {
+                displayName: 'Value',
+                name: 'value',
+                type: 'string',
+                default: '',
+                displayOptions: { hide: { operator: ['isNull', 'notNull'] } },
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: 'Sort By Name or ID',
+        name: 'sortField',
+        type: 'options',
+        default: '',
+        description:
+          'Field to sort the results by. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+        typeOptions: {
+          loadOptionsMethod: 'getFieldOptions',
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+        },
         displayOptions: { show: { operation: ['list'] } },
       },
+      {
+        displayName: 'Sort Direction',
+        name: 'sortDirection',
+        type: 'options',
+        default: 'asc',
+        options: [
+          { name: 'Ascending', value: 'asc' },
+          { name: 'Descending', value: 'desc' },
+        ],
+        displayOptions: { show: { operation: ['list'] }, hide: { sortField: [''] } },
+      },
+      {
+        displayName: 'Fields to Return Names or IDs',
+        name: 'returnFields',
+        type: 'multiOptions',
+        default: [],
+        description:
+          'Only include these fields in each record. Leave empty to return all fields. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+        typeOptions: {
+          loadOptionsMethod: 'getFieldOptions',
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+        },
+        displayOptions: { show: { operation: ['list'] } },
+      },
+      // ── Aggregate ────────────────────────────────────────────────────────────
+      {
+        displayName: 'Functions',
+        name: 'aggregateFunctions',
+        type: 'multiOptions',
+        default: ['count'],
+        required: true,
+        options: [
+          { name: 'Average', value: 'avg' },
+          { name: 'Count', value: 'count', description: 'Number of records' },
+          { name: 'Maximum', value: 'max' },
+          { name: 'Minimum', value: 'min' },
+          { name: 'Sum', value: 'sum' },
+        ],
+        displayOptions: { show: { operation: ['aggregate'] } },
+      },
+      {
+        displayName: 'Field Name or ID',
+        name: 'aggregateField',
+        type: 'options',
+        default: '',
+        description:
+          'Field to compute sum, average, minimum and maximum over. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+        typeOptions: {
+          loadOptionsMethod: 'getFieldOptions',
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+        },
+        displayOptions: { show: { operation: ['aggregate'] } },
+      },
+      {
+        displayName: 'Group By Name or ID',
+        name: 'groupBy',
+        type: 'options',
+        default: '',
+        description:
+          'Return one result per value of this field. Leave empty for a single result. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+        typeOptions: {
+          loadOptionsMethod: 'getFieldOptions',
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+        },
+        displayOptions: { show: { operation: ['aggregate'] } },
+      },
+      // ── Search (search / findOne) ────────────────────────────────────────────
+      {
+        displayName: 'Search Query',
+        name: 'searchQuery',
+        type: 'string',
+        default: '',
+        required: true,
+        placeholder: 'e.g. Juan Pérez',
+        description: 'Text to look for. Every word must appear in the record; exact matches rank first.',
+        displayOptions: { show: { operation: ['search', 'findOne'] } },
+      },
+      {
+        displayName: 'Search In Field Names or IDs',
+        name: 'searchFields',
+        type: 'multiOptions',
+        default: [],
+        description:
+          'Only search these fields. Leave empty to search all text fields. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+        typeOptions: {
+          loadOptionsMethod: 'getFieldOptions',
+          loadOptionsDependsOn: ['tenantId.value', 'entityName.value'],
+        },
+        displayOptions: { show: { operation: ['search', 'findOne'] } },
+      },
+      {
+        displayName: 'Limit',
+        name: 'searchLimit',
+        type: 'number',
+        default: 10,
+        description: 'Max number of results to return',
+        typeOptions: { minValue: 1 },
+        displayOptions: { show: { operation: ['search'] } },
+      },
+      {
+        displayName: 'If No Record Matches',
+        name: 'ifNoMatch',
+        type: 'options',
+        default: 'error',
+        options: [
+          { name: 'Fail', value: 'error', description: 'Fail the item' },
+          { name: 'Return Nothing', value: 'empty', description: 'Output no item' },
+        ],
+        displayOptions: { show: { operation: ['findOne'] } },
+      },
+      {
+        displayName: 'If Several Records Match',
+        name: 'ifSeveralMatch',
+        type: 'options',
+        default: 'error',
+        options: [
+          { name: 'Fail', value: 'error', description: 'Fail the item' },
+          { name: 'Return Best Match', value: 'first', description: 'Output the highest-ranked record' },
+        ],
+        displayOptions: { show: { operation: ['findOne'] } },
+      },
+      {
+        displayName: 'Expand Relations',
+        name: 'expandRelations',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to replace the IDs in relation fields with the related records',
+        displayOptions: { show: { operation: ['get', 'list', 'search', 'findOne'] } },
+      },
+      {
+        displayName: 'Expansion Depth',
+        name: 'expandDepth',
+        type: 'number',
+        default: 1,
+        description: 'How many levels of relations to follow, e.g. 2 also expands the relations of the related records',
+        typeOptions: { minValue: 1, maxValue: 3 },
+        displayOptions: { show: { operation: ['get', 'list', 'search', 'findOne'], expandRelations: [true] } },
+      },
       // ── Options ──────────────────────────────────────────────────────────────
       {
         displayName: 'Options',
@@ -200,8 +1294,54 @@ export class Fyso implements INodeType {
         type: 'collection',
         placeholder: 'Add option',
         default: {},
-        displayOptions: { show: { operation: ['create', 'get', 'update', 'delete', 'list'] } },
+        displayOptions: {
+          show: {
+            operation: [
+              'create',
+              'get',
+              'update',
+              'upsert',
+              'delete',
+              'deleteMany',
+              'restore',
+              'list',
+              'aggregate',
+              'search',
+              'findOne',
+              'uploadFile',
+              'downloadFile',
+              'listEntities',
+              'getEntity',
+              'createEntity',
+              'addField',
+              'updateField',
+              'removeField',
+              'listTenants',
+              'getTenant',
+              'createTenant',
+              'selectTenant',
+            ],
+          },
+        },
         options: [
+          {
+            displayName: 'Batch Size',
+            name: 'batchSize',
+            type: 'number',
+            default: 1,
+            typeOptions: { minValue: 1 },
+            description: 'Number of items to send per bulk request. Use 1 to send one request per item.',
+            displayOptions: { show: { '/operation': ['create', 'update', 'delete'] } },
+          },
+          {
+            displayName: 'Concurrency',
+            name: 'concurrency',
+            type: 'number',
+            default: 5,
+            typeOptions: { minValue: 1 },
+            description: 'Max number of parallel requests per batch when the Fyso server has no bulk endpoint',
+            displayOptions: { show: { '/operation': ['create', 'update', 'delete', 'deleteMany'] } },
+          },
           {
             displayName: 'Continue on Fail',
             name: 'continueOnFail',
@@ -209,72 +1349,110 @@ export class Fyso implements INodeType {
             default: false,
             description: 'Whether to continue workflow execution when this node fails. Failed items will include an error property.',
           },
+          {
+            displayName: 'Expected Version',
+            name: 'expectedVersion',
+            type: 'string',
+            default: '',
+            placeholder: 'e.g. {{ $json.updatedAt }}',
+            description:
+              'Only update if the record\'s Version Field still has this value, e.g. the one read by an earlier Get. Otherwise the item fails with a conflict. Items are then sent one by one, even with a Batch Size.',
+            displayOptions: { show: { '/operation': ['update'] } },
+          },
+          {
+            displayName: 'Max Attempts',
+            name: 'maxAttempts',
+            type: 'number',
+            default: 3,
+            typeOptions: { minValue: 1 },
+            description:
+              'How many times to try each request when Fyso is rate limiting or a gateway error occurs. Creates are only retried when Fyso refused them (429, or 503 with Retry-After), so a retry cannot duplicate records. Use 1 to disable retries.',
+          },
+          {
+            displayName: 'Retry Delay (Ms)',
+            name: 'retryDelay',
+            type: 'number',
+            default: 500,
+            typeOptions: { minValue: 0 },
+            description:
+              'Base delay before the first retry, doubled on every attempt with random jitter. A Retry-After header from Fyso takes precedence.',
+          },
+          {
+            displayName: 'Skip Empty Values',
+            name: 'skipEmptyValues',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to leave out mapped fields that are empty instead of sending them as empty values',
+            displayOptions: { show: { '/operation': ['update'] } },
+          },
+          {
+            displayName: 'Validate Only',
+            name: 'validateOnly',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether to only check each item against the entity schema and output a validation report, without writing anything',
+            displayOptions: { show: { '/operation': ['create', 'update'] } },
+          },
+          {
+            displayName: 'Version Field',
+            name: 'versionField',
+            type: 'string',
+            default: 'updatedAt',
+            description: 'Record field compared with Expected Version, e.g. updatedAt or version',
+            displayOptions: { show: { '/operation': ['update'] } },
+          },
         ],
       },
     ],
   };
 
   methods = {
-    listSearch: {
-      async getTenants(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
-        const creds = await this.getCredentials('fysoApi');
-        const baseUrl = (creds.apiUrl as string).replace(/\/$/, '');
-        const token = await fysoLogin(baseUrl, creds.email as string, creds.password as string);
-        const res = await fetch(`${baseUrl}/api/auth/tenants`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = (await res.json()) as { success: boolean; data?: Array<{ id: string; name: string; slug: string }> };
-        if (!data.success || !data.data) return { results: [] };
-        return { results: data.data.map((t) => ({ name: `${t.name} (${t.slug})`, value: t.id })) };
+    listSearch,
+
+    loadOptions: {
+      async getFieldOptions(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+        const client = new FysoClient(this, getTenantParameter(this));
+        const entityLocator = this.getNodeParameter('entityName') as { value: string };
+        if (!client.hasTenant() || !entityLocator.value) return [];
+
+        const entity = await client.getEntity(entityLocator.value);
+        return (entity.fields ?? []).map((f) => ({ name: f.name, value: f.fieldKey, description: f.fieldType }));
       },
 
-      async getEntities(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
-        const tenantLocator = this.getNodeParameter('tenantId') as { value: string };
-        if (!tenantLocator.value) return { results: [] };
-        const { baseUrl, token } = await getAuth(this, tenantLocator.value);
-        const res = await fetch(`${baseUrl}/api/metadata/entities`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = (await res.json()) as { success: boolean; data?: Array<{ name: string; displayName: string }> };
-        if (!data.success || !data.data) return { results: [] };
-        return { results: data.data.map((e) => ({ name: e.displayName ?? e.name, value: e.name })) };
+      async getFileFieldOptions(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+        const client = new FysoClient(this, getTenantParameter(this));
+        const entityLocator = this.getNodeParameter('entityName') as { value: string };
+        if (!client.hasTenant() || !entityLocator.value) return [];
+
+        const entity = await client.getEntity(entityLocator.value);
+        return (entity.fields ?? [])
+          .filter((f) => f.fieldType === 'file')
+          .map((f) => ({ name: f.name, value: f.fieldKey }));
       },
     },
 
     resourceMapping: {
       async getEntityFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
-        const tenantLocator = this.getNodeParameter('tenantId') as { value: string };
+        const client = new FysoClient(this, getTenantParameter(this));
         const entityLocator = this.getNodeParameter('entityName') as { value: string };
-        if (!tenantLocator.value || !entityLocator.value) return { fields: [] };
+        if (!client.hasTenant() || !entityLocator.value) return { fields: [] };
+        // Match columns only make sense for Create or Update; elsewhere the record ID is used.
+        const canBeUsedToMatch = this.getNodeParameter('operation') === 'upsert';
+        const toolMode = isToolMode(this);
 
-        const { baseUrl, token } = await getAuth(this, tenantLocator.value);
-        const res = await fetch(`${baseUrl}/api/metadata/entities/${entityLocator.value}`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = (await res.json()) as {
-          success: boolean;
-          data?: {
-            fields?: Array<{
-              fieldKey: string;
-              name: string;
-              fieldType: string;
-              isRequired?: boolean;
-              config?: { options?: Array<{ value: string; label?: string } | string> };
-            }>;
-          };
-        };
+        const entity = await client.getEntity(entityLocator.value);
+        if (!entity.fields) return { fields: [] };
 
-        if (!data.success || !data.data?.fields) return { fields: [] };
-
-        const fields: ResourceMapperField[] = data.data.fields.map((f) => {
+        const fields: ResourceMapperField[] = entity.fields.map((f) => {
           const field: ResourceMapperField = {
             id: f.fieldKey,
-            displayName: f.name,
+            displayName: mapperDisplayName(f),
             required: f.isRequired ?? false,
             defaultMatch: false,
             display: true,
             type: fysoTypeToN8n(f.fieldType),
-            canBeUsedToMatch: false,
+            canBeUsedToMatch,
           };
 
           if (f.fieldType === 'select' && f.config?.options) {
@@ -283,6 +1461,8 @@ export class Fyso implements INodeType {
             );
           }
 
+          if (toolMode) field.defaultValue = fromAiExpression(f);
+
           return field;
         });
 
@@ -295,79 +1475,323 @@ export class Fyso implements INodeType {
     const items = this.getInputData();
     const results: INodeExecutionData[] = [];
 
+    const batchOperation = this.getNodeParameter('operation', 0) as string;
+    const batchOptions = this.getNodeParameter('options', 0, {}) as IDataObject;
+    const batchSize = (batchOptions.batchSize as number | undefined) ?? 1;
+    const toolMode = isToolMode(this);
+    // Version checks need a read before every write, so those updates are not batched;
+    // validation writes nothing, so it runs item by item as well. So do agent calls, which
+    // need their tenant and entity resolved and their errors returned as answers. Expected
+    // Version is usually an expression, so it is checked as set on the node, not as item 0 resolves it.
+    const nodeOptions = (this.getNode().parameters.options ?? {}) as IDataObject;
+    const batchable =
+      !toolMode &&
+      ((batchOperation === 'create' && !nodeOptions.validateOnly) ||
+        batchOperation === 'delete' ||
+        (batchOperation === 'update' && !nodeOptions.expectedVersion && !nodeOptions.validateOnly));
+    if (batchSize > 1 && batchable) {
+      const concurrency = (batchOptions.concurrency as number | undefined) ?? 5;
+      return [await executeBatched(this, batchOperation, batchSize, concurrency)];
+    }
+
+    // One client per tenant and retry policy, so entity schemas are loaded once per execution.
+    const clients = new Map<string, FysoClient>();
+    const getClient = (tenantId: string, itemIndex: number) => {
+      const options = getClientOptions(this, itemIndex);
+      const key = JSON.stringify([tenantId, options]);
+      let client = clients.get(key);
+      if (!client) {
+        client = new FysoClient(this, tenantId, options);
+        clients.set(key, client);
+      }
+      return client;
+    };
+    const toolTargets: ToolTargetLists = { entities: new Map() };
+
     for (let i = 0; i < items.length; i++) {
       try {
-        const tenantLocator = this.getNodeParameter('tenantId', i) as { value: string };
-        const entityLocator = this.getNodeParameter('entityName', i) as { value: string };
+        const tenantLocator = this.getNodeParameter('tenantId', i, { value: '' }) as { value: string };
+        const entityLocator = this.getNodeParameter('entityName', i, { value: '' }) as { value: string };
         const operation = this.getNodeParameter('operation', i) as string;
-        const tenantId = tenantLocator.value;
-        const entityName = entityLocator.value;
+        let tenantId = tenantLocator.value;
+        let entityName = entityLocator.value;
+        if (toolMode) ({ tenantId, entityName } = await resolveToolTarget(this, toolTargets, tenantId, entityName, i));
 
-        const { baseUrl, token } = await getAuth(this, tenantId);
-        const headers = { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
-        const base = `${baseUrl}/api/entities/${entityName}`;
+        const client = getClient(tenantId, i);
+        // The Tenant parameter is hidden for API keys, which only reach their own tenant.
+        const apiKey = this.getNodeParameter('authentication', i, 'password') === 'apiKey';
+        if (apiKey && (operation === 'getTenant' || operation === 'selectTenant')) {
+          throw new NodeOperationError(this.getNode(), 'Get Tenant and Select Tenant need Email & Password authentication', {
+            itemIndex: i,
+            description: 'API keys are scoped to the tenant they were issued for',
+          });
+        }
 
         if (operation === 'create') {
-          const fieldData = this.getNodeParameter('fields', i) as { value: IDataObject };
-          const body = fieldData.value ?? {};
-          const res = await fetch(`${base}/records`, { method: 'POST', headers, body: JSON.stringify(body) });
-          const data = (await res.json()) as { success: boolean; data?: IDataObject; error?: string };
-          if (!res.ok || !data.success) {
-            throw new NodeApiError(this.getNode(), { message: data.error ?? 'Failed to create record', statusCode: res.status } as JsonObject);
+          const { validateOnly } = this.getNodeParameter('options', i, {}) as IDataObject;
+          if (validateOnly) {
+            results.push({ json: await validateRecordBody(this, client, entityName, i, true), pairedItem: i });
+            continue;
           }
-          results.push({ json: data.data ?? (data as IDataObject), pairedItem: i });
+          const body = await getRecordBody(this, client, entityName, i, operation);
+          const record = await client.createRecord(entityName, body);
+          results.push({ json: record, pairedItem: i });
 
         } else if (operation === 'get') {
           const recordId = this.getNodeParameter('recordId', i) as string;
-          const res = await fetch(`${base}/records/${recordId}`, { headers });
-          const data = (await res.json()) as { success: boolean; data?: IDataObject; error?: string };
-          if (!res.ok || !data.success) {
-            throw new NodeApiError(this.getNode(), { message: data.error ?? `Record ${recordId} not found`, statusCode: res.status } as JsonObject);
-          }
-          results.push({ json: data.data ?? (data as IDataObject), pairedItem: i });
+          const [record] = await client.expandRelations(
+            entityName,
+            [await client.getRecord(entityName, recordId)],
+            getExpandDepth(this, i),
+          );
+          results.push({ json: record, pairedItem: i });
 
         } else if (operation === 'list') {
-          const limit = this.getNodeParameter('limit', i) as number;
-          const offset = this.getNodeParameter('offset', i) as number;
-          const res = await fetch(`${base}/records?limit=${limit}&offset=${offset}`, { headers });
-          const data = (await res.json()) as { success: boolean; data?: IDataObject[]; error?: string };
-          if (!res.ok || !data.success) {
-            throw new NodeApiError(this.getNode(), { message: data.error ?? 'Failed to list records', statusCode: res.status } as JsonObject);
+          const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+          const query = getListQuery(this, i);
+          const expandDepth = getExpandDepth(this, i);
+          if (returnAll) {
+            const pageSize = this.getNodeParameter('pageSize', i, 100) as number;
+            const maxRecords = this.getNodeParameter('maxRecords', i, 0) as number;
+            for await (const page of client.paginateRecords(entityName, query, pageSize, maxRecords || Infinity)) {
+              for (const record of await client.expandRelations(entityName, page, expandDepth)) {
+                results.push({ json: record, pairedItem: i });
+              }
+            }
+          } else {
+            const limit = this.getNodeParameter('limit', i) as number;
+            const offset = this.getNodeParameter('offset', i) as number;
+            const records = await client.expandRelations(
+              entityName,
+              await client.listRecords(entityName, { ...query, limit, offset }),
+              expandDepth,
+            );
+            for (const record of records) {
+              results.push({ json: record, pairedItem: i });
+            }
+          }
+
+        } else if (operation === 'aggregate') {
+          const functions = this.getNodeParameter('aggregateFunctions', i) as FysoAggregateFunction[];
+          const field = this.getNodeParameter('aggregateField', i, '') as string;
+          if (functions.length === 0) {
+            throw new NodeOperationError(this.getNode(), 'Select at least one function', { itemIndex: i });
+          }
+          if (!field && functions.some((fn) => fn !== 'count')) {
+            throw new NodeOperationError(this.getNode(), 'Select the field to aggregate', {
+              itemIndex: i,
+              description: 'Sum, average, minimum and maximum need a field; count does not',
+            });
+          }
+          const aggregates = await client.aggregateRecords(entityName, {
+            functions,
+            field: field || undefined,
+            groupBy: (this.getNodeParameter('groupBy', i, '') as string) || undefined,
+            filters: getListQuery(this, i).filters,
+          });
+          for (const aggregate of aggregates) {
+            results.push({ json: aggregate, pairedItem: i });
+          }
+
+        } else if (operation === 'search' || operation === 'findOne') {
+          const searchQuery = (this.getNodeParameter('searchQuery', i) as string).trim();
+          if (!searchQuery) {
+            throw new NodeOperationError(this.getNode(), 'Enter a search query', { itemIndex: i });
           }
-          const records = Array.isArray(data.data) ? data.data : [];
-          for (const record of records) {
+          const fields = this.getNodeParameter('searchFields', i, []) as string[];
+          // Two matches are enough to tell a unique match from an ambiguous one.
+          const limit = operation === 'search' ? (this.getNodeParameter('searchLimit', i) as number) : 2;
+          const matches = await client.searchRecords(entityName, searchQuery, { fields, limit });
+
+          let records = matches;
+          if (operation === 'findOne') {
+            if (matches.length === 0 && this.getNodeParameter('ifNoMatch', i) === 'error') {
+              throw new NodeOperationError(this.getNode(), `No ${entityName} record matches "${searchQuery}"`, {
+                itemIndex: i,
+              });
+            }
+            if (matches.length > 1 && this.getNodeParameter('ifSeveralMatch', i) === 'error') {
+              throw new NodeOperationError(this.getNode(), `More than one ${entityName} record matches "${searchQuery}"`, {
+                itemIndex: i,
+                description: 'Refine the query or choose Return Best Match',
+              });
+            }
+            records = matches.slice(0, 1);
+          }
+          for (const record of await client.expandRelations(entityName, records, getExpandDepth(this, i))) {
             results.push({ json: record, pairedItem: i });
           }
 
         } else if (operation === 'update') {
           const recordId = this.getNodeParameter('recordId', i) as string;
-          const fieldData = this.getNodeParameter('fields', i) as { value: IDataObject };
-          const body = fieldData.value ?? {};
-          const res = await fetch(`${base}/records/${recordId}`, {
-            method: 'PUT',
-            headers,
-            body: JSON.stringify(body),
+          const options = this.getNodeParameter('options', i, {}) as IDataObject;
+          const expectedVersion = options.expectedVersion as string | undefined;
+          const partial = this.getNodeParameter('updateMode', i, 'replace') === 'patch';
+          const skipEmpty = options.skipEmptyValues === true;
+          if (options.validateOnly) {
+            // A replacing PUT must carry every required field; a partial update only what it changes.
+            const report = await validateRecordBody(this, client, entityName, i, !partial, skipEmpty);
+            results.push({ json: { id: recordId, ...report }, pairedItem: i });
+            continue;
+          }
+          const body = await getRecordBody(this, client, entityName, i, operation, skipEmpty);
+          const record = await client.updateRecord(entityName, recordId, body, {
+            partial,
+            expected: expectedVersion
+              ? { field: (options.versionField as string | undefined) || 'updatedAt', value: String(expectedVersion) }
+              : undefined,
           });
-          const data = (await res.json()) as { success: boolean; data?: IDataObject; error?: string };
-          if (!res.ok || !data.success) {
-            throw new NodeApiError(this.getNode(), { message: data.error ?? `Failed to update record ${recordId}`, statusCode: res.status } as JsonObject);
+          results.push({ json: record, pairedItem: i });
+
+        } else if (operation === 'upsert') {
+          const matchColumns =
+            this.getNodeParameter('dataMode', i, 'mapper') === 'json'
+              ? (this.getNodeParameter('matchFields', i) as string).split(',').map((f) => f.trim()).filter(Boolean)
+              : (this.getNodeParameter('fields', i) as ResourceMapperValue).matchingColumns ?? [];
+          if (matchColumns.length === 0) {
+            throw new NodeOperationError(this.getNode(), 'Select at least one column to match on', { itemIndex: i });
           }
-          results.push({ json: data.data ?? (data as IDataObject), pairedItem: i });
+          const body = await getRecordBody(this, client, entityName, i, operation);
+          const { action, record } = await client.upsertRecord(entityName, body, matchColumns);
+          results.push({ json: { ...record, _action: action }, pairedItem: i });
 
         } else if (operation === 'delete') {
           const recordId = this.getNodeParameter('recordId', i) as string;
-          const res = await fetch(`${base}/records/${recordId}`, { method: 'DELETE', headers });
-          const data = (await res.json()) as { success: boolean; error?: string };
-          if (!res.ok || !data.success) {
-            throw new NodeApiError(this.getNode(), { message: data.error ?? `Failed to delete record ${recordId}`, statusCode: res.status } as JsonObject);
+          const permanent = isPermanentDelete(this, i);
+          // Read only so the output keeps the record's last state; a wrong but existing ID is still deleted.
+          const record = recordId.trim() ? await client.getRecord(entityName, recordId) : undefined;
+          await client.deleteRecord(entityName, recordId, { permanent });
+          results.push({ json: { success: true, id: recordId, permanent, record }, pairedItem: i });
+
+        } else if (operation === 'deleteMany') {
+          const permanent = isPermanentDelete(this, i);
+          const { concurrency } = this.getNodeParameter('options', i, {}) as IDataObject;
+          const deleted = await client.deleteRecords(
+            entityName,
+            getListQuery(this, i).filters ?? [],
+            this.getNodeParameter('deleteLimit', i) as number,
+            { concurrency: concurrency as number | undefined, permanent },
+          );
+          for (const { success, error, record } of deleted) {
+            const json: IDataObject = { success, id: record?.id, permanent, record };
+            if (error) json.error = error;
+            results.push({ json, pairedItem: i });
+          }
+
+        } else if (operation === 'restore') {
+          const recordId = this.getNodeParameter('recordId', i) as string;
+          const record = await client.restoreRecord(entityName, recordId);
+          results.push({ json: record, pairedItem: i });
+
+        } else if (operation === 'uploadFile') {
+          const recordId = this.getNodeParameter('recordId', i) as string;
+          const fieldKey = this.getNodeParameter('fileField', i) as string;
+          const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+          const binary = this.helpers.assertBinaryData(i, binaryPropertyName);
+          const record = await client.uploadFile(entityName, recordId, fieldKey, {
+            data: await this.helpers.getBinaryDataBuffer(i, binaryPropertyName),
+            fileName: binary.fileName ?? fieldKey,
+            mimeType: binary.mimeType,
+          });
+          results.push({ json: record, pairedItem: i });
+
+        } else if (operation === 'downloadFile') {
+          const recordId = this.getNodeParameter('recordId', i) as string;
+          const fieldKey = this.getNodeParameter('fileField', i) as string;
+          const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+          const file = await client.downloadFile(entityName, recordId, fieldKey);
+          results.push({
+            json: { id: recordId, field: fieldKey, fileName: file.fileName, mimeType: file.mimeType },
+            binary: {
+              [binaryPropertyName]: await this.helpers.prepareBinaryData(file.data, file.fileName, file.mimeType),
+            },
+            pairedItem: i,
+          });
+
+        } else if (operation === 'listEntities') {
+          const entities = await client.listEntities();
+          for (const entity of entities) {
+            results.push({ json: { ...entity }, pairedItem: i });
+          }
+
+        } else if (operation === 'getEntity') {
+          const entity = await client.getEntity(entityName);
+          // Agents only need what to send: each field's key, type, whether it is required and its options.
+          const json = toolMode
+            ? { entity: entity.name, fields: describeFields(entity.fields ?? []) }
+            : ({ ...entity } as IDataObject);
+          results.push({ json, pairedItem: i });
+
+        } else if (operation === 'createEntity') {
+          const name = this.getNodeParameter('newEntityName', i) as string;
+          const additional = this.getNodeParameter('entityFields', i, {}) as IDataObject;
+          const entity = await client.createEntity({
+            name,
+            displayName: (additional.displayName as string) || undefined,
+            description: (additional.description as string) || undefined,
+          });
+          results.push({ json: { ...entity } as IDataObject, pairedItem: i });
+
+        } else if (operation === 'addField') {
+          const field = await client.addField(
+            entityName,
+            getFieldInput({
+              fieldKey: this.getNodeParameter('fieldKey', i) as string,
+              name: this.getNodeParameter('fieldName', i) as string,
+              fieldType: this.getNodeParameter('fieldType', i) as string,
+              isRequired: this.getNodeParameter('isRequired', i, false) as boolean,
+              selectOptions: this.getNodeParameter('selectOptions', i, {}) as IDataObject,
+              relatedEntity: this.getNodeParameter('relatedEntity', i, '') as string,
+            }),
+          );
+          results.push({ json: field, pairedItem: i });
+
+        } else if (operation === 'updateField') {
+          const fieldKey = this.getNodeParameter('schemaField', i) as string;
+          const updates = getFieldInput(this.getNodeParameter('fieldUpdates', i, {}) as IDataObject);
+          if (Object.keys(updates).length === 0) {
+            throw new NodeOperationError(this.getNode(), 'Add at least one property to update', { itemIndex: i });
           }
-          results.push({ json: { success: true, id: recordId }, pairedItem: i });
+          const field = await client.updateField(entityName, fieldKey, updates);
+          results.push({ json: field, pairedItem: i });
+
+        } else if (operation === 'removeField') {
+          const fieldKey = this.getNodeParameter('schemaField', i) as string;
+          await client.removeField(entityName, fieldKey);
+          results.push({ json: { success: true, entity: entityName, field: fieldKey }, pairedItem: i });
+
+        } else if (operation === 'listTenants') {
+          const tenants = await client.listTenants();
+          for (const tenant of tenants) {
+            results.push({ json: { ...tenant }, pairedItem: i });
+          }
+
+        } else if (operation === 'getTenant') {
+          const tenant = await client.getTenant(tenantId);
+          results.push({ json: { ...tenant }, pairedItem: i });
+
+        } else if (operation === 'createTenant') {
+          const tenant = await client.createTenant({
+            name: this.getNodeParameter('tenantName', i) as string,
+            slug: (this.getNodeParameter('tenantSlug', i, '') as string) || undefined,
+          });
+          results.push({ json: { ...tenant }, pairedItem: i });
+
+        } else if (operation === 'selectTenant') {
+          await client.selectTenant(tenantId);
+          results.push({ json: { success: true, tenantId }, pairedItem: i });
 
         } else {
           throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, { itemIndex: i });
         }
 
       } catch (error) {
+        // Agents get the error back as the tool's answer, with the hint on how to fix the call.
+        if (toolMode) {
+          const { message, description } = error as NodeOperationError;
+          results.push({ json: omitEmpty({ error: message, hint: description ?? undefined }), pairedItem: i });
+          continue;
+        }
         if (this.continueOnFail()) {
           results.push({ json: { error: (error as Error).message }, pairedItem: i });
           continue;
@@ -376,6 +1800,10 @@ export class Fyso implements INodeType {
       }
     }
 
+    if (toolMode) {
+      for (const result of results) result.json = omitEmpty(result.json);
+    }
+
     return [results];
   }
 }
@@ -0,0 +1,236 @@
+import type {
+  IDataObject,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeDescription,
+  IPollFunctions,
+} from 'n8n-workflow';
+
+import type { FysoListQuery } from '../shared/FysoClient';
+import { FysoClient, getTenantParameter } from '../shared/FysoClient';
+import { authenticationProperty, fysoCredentials, listSearch, tenantProperty } from '../shared/FysoDescription';
+
+// Deletions are found by diffing record IDs, so only entities up to this size are tracked.
+const MAX_TRACKED_IDS = 10000;
+
+const PAGE_SIZE = 100;
+
+interface PollState {
+  /** Highest `updatedAt` seen so far; the next poll asks for records at or after it. */
+  cursor?: string;
+  /** IDs already emitted at exactly `cursor`, so an inclusive query does not repeat them. */
+  cursorIds?: string[];
+  knownIds?: string[];
+}
+
+function toTime(value: unknown): number {
+  return typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+}
+
+/** Whether two ID lists hold the same IDs, in any order. */
+function sameIds(a: string[] | undefined, b: string[] | undefined): boolean {
+  if (!a || !b) return a === b;
+  const known = new Set(a);
+  return a.length === b.length && b.every((id) => known.has(id));
+}
+
+async function listRecordIds(client: FysoClient, entityName: string): Promise<string[] | undefined> {
+  const ids: string[] = [];
+  for await (const page of client.paginateRecords(entityName, { fields: ['id'] }, PAGE_SIZE)) {
+    for (const record of page) ids.push(String(record.id));
+    if (ids.length > MAX_TRACKED_IDS) return undefined;
+  }
+  return ids;
+}
+
+export class FysoPollingTrigger implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Fyso Polling Trigger',
+    name: 'fysoPollingTrigger',
+    icon: 'file:fyso.svg',
+    group: ['trigger'],
+    version: 1,
+    subtitle: '={{$parameter["eventTypes"].join(", ") + " · " + $parameter["entityName"].value}}',
+    description: 'Poll Fyso for created, updated or deleted records, for n8n instances without a public webhook URL',
+    defaults: { name: 'Fyso Polling Trigger' },
+    usableAsTool: true,
+    polling: true,
+    inputs: [],
+    outputs: ['main'],
+    credentials: fysoCredentials,
+    properties: [
+      // ── Authentication ──────────────────────────────────────────────────────
+      authenticationProperty,
+      // ── Tenant ──────────────────────────────────────────────────────────────
+      tenantProperty('The Fyso tenant to poll for record changes'),
+      // ── Entity ──────────────────────────────────────────────────────────────
+      {
+        displayName: 'Entity',
+        name: 'entityName',
+        type: 'resourceLocator',
+        default: { mode: 'list', value: '' },
+        required: true,
+        description: 'The Fyso entity (data model) to poll, e.g. patients, orders',
+        hint: 'Each poll lists the records of this entity changed since the previous poll',
+        modes: [
+          {
+            displayName: 'List',
+            name: 'list',
+            type: 'list',
+            placeholder: 'Select an entity...',
+            typeOptions: { searchListMethod: 'getEntities', searchable: true },
+          },
+          {
+            displayName: 'Name',
+            name: 'name',
+            type: 'string',
+            placeholder: 'e.g. patients',
+          },
+        ],
+      },
+      // ── Events ──────────────────────────────────────────────────────────────
+      {
+        displayName: 'Events',
+        name: 'eventTypes',
+        type: 'multiOptions',
+        required: true,
+        default: ['record.created', 'record.updated'],
+        description: 'The record events that will trigger this workflow. Select one or more.',
+        options: [
+          { name: 'Record Created', value: 'record.created', description: 'Fires when a new record is added to the entity' },
+          {
+            name: 'Record Deleted',
+            value: 'record.deleted',
+            description: 'Fires when a record disappears from the entity. Only tracked for entities up to 10,000 records.',
+          },
+          { name: 'Record Updated', value: 'record.updated', description: 'Fires when an existing record is modified' },
+        ],
+      },
+      // ── Options ─────────────────────────────────────────────────────────────
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add option',
+        default: {},
+        options: [
+          {
+            displayName: 'Created At Field',
+            name: 'createdAtField',
+            type: 'string',
+            default: 'createdAt',
+            description: 'Record field holding the creation timestamp',
+          },
+          {
+            displayName: 'Updated At Field',
+            name: 'updatedAtField',
+            type: 'string',
+            default: 'updatedAt',
+            description: 'Record field holding the last modification timestamp, used as the polling cursor',
+          },
+        ],
+      },
+    ],
+  };
+
+  methods = {
+    listSearch,
+  };
+
+  async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+    const state = this.getWorkflowStaticData('node') as PollState;
+    const tenantId = getTenantParameter(this) || undefined;
+    const entityName = (this.getNodeParameter('entityName') as { value: string }).value;
+    const eventTypes = this.getNodeParameter('eventTypes') as string[];
+    const options = this.getNodeParameter('options', {}) as IDataObject;
+    const createdAtField = (options.createdAtField as string | undefined) || 'createdAt';
+    const updatedAtField = (options.updatedAtField as string | undefined) || 'updatedAt';
+
+    const client = new FysoClient(this, tenantId);
+    const manual = this.getMode() === 'manual';
+    const detectDeletes = eventTypes.includes('record.deleted');
+
+    const toItem = (event: string, record: IDataObject): INodeExecutionData => ({
+      json: {
+        event,
+        entity: entityName,
+        recordId: record.id === undefined ? undefined : String(record.id),
+        tenantId,
+        occurredAt: (record[updatedAtField] as string | undefined) ?? new Date().toISOString(),
+        record,
+        // Polling only sees the current state, so there is no previous record to diff against.
+        changes: {},
+      },
+    });
+    // Created after the cursor, or at it without having been seen there, means created since.
+    const classify = (record: IDataObject, since: number, seen: boolean) => {
+      const createdAt = toTime(record[createdAtField]);
+      return createdAt > since || (createdAt === since && !seen) ? 'record.created' : 'record.updated';
+    };
+
+    const [latest] = manual || state.cursor === undefined
+      ? await client.listRecords(entityName, { sort: updatedAtField, sortDirection: 'desc', limit: 1 })
+      : [];
+
+    // A manual run shows the most recently changed record so the workflow can be built.
+    if (manual) {
+      return latest ? [[toItem(classify(latest, toTime(latest[updatedAtField]), false), latest)]] : null;
+    }
+
+    // The first poll after activation only records where to start from. The cursor comes
+    // from Fyso's own timestamps so clock skew between the servers cannot drop changes.
+    if (state.cursor === undefined) {
+      const latestUpdatedAt = latest?.[updatedAtField] as string | undefined;
+      state.cursor = latestUpdatedAt ?? new Date().toISOString();
+      state.cursorIds = latestUpdatedAt ? [String(latest.id)] : [];
+      if (detectDeletes) state.knownIds = await listRecordIds(client, entityName);
+      return null;
+    }
+
+    const items: INodeExecutionData[] = [];
+    const since = toTime(state.cursor);
+    let cursor = state.cursor;
+    let cursorIds = new Set(state.cursorIds ?? []);
+
+    if (eventTypes.includes('record.created') || eventTypes.includes('record.updated')) {
+      const query: FysoListQuery = {
+        filters: [{ field: updatedAtField, operator: 'gte', value: state.cursor }],
+        sort: updatedAtField,
+        sortDirection: 'asc',
+      };
+      for await (const page of client.paginateRecords(entityName, query, PAGE_SIZE)) {
+        for (const record of page) {
+          const id = String(record.id);
+          const updatedAt = record[updatedAtField] as string | undefined;
+          const seen = state.cursorIds?.includes(id) ?? false;
+          if (!updatedAt || (updatedAt === state.cursor && seen)) continue;
+
+          if (toTime(updatedAt) > toTime(cursor)) {
+            cursor = updatedAt;
+            cursorIds = new Set();
+          }
+          if (updatedAt === cursor) cursorIds.add(id);
+
+          const event = classify(record, since, seen);
+          if (eventTypes.includes(event)) items.push(toItem(event, record));
+        }
+      }
+    }
+
+    if (detectDeletes) {
+      const currentIds = await listRecordIds(client, entityName);
+      if (currentIds && state.knownIds) {
+        const current = new Set(currentIds);
+        for (const id of state.knownIds) {
+          if (!current.has(id)) items.push(toItem('record.deleted', { id }));
+        }
+      }
+      // Static data is saved whenever it is assigned, so an unchanged list of IDs is left alone.
+      if (!sameIds(state.knownIds, currentIds)) state.knownIds = currentIds;
+    }
+
+    state.cursor = cursor;
+    state.cursorIds = [...cursorIds];
+    return items.length ? [items] : null;
+  }
+}
@@ -1,50 +1,247 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import type {
   IDataObject,
   IHookFunctions,
   ILoadOptionsFunctions,
-  INodeListSearchResult,
+  INodeExecutionData,
+  INodePropertyOptions,
   INodeType,
   INodeTypeDescription,
   IWebhookFunctions,
   IWebhookResponseData,
 } from 'n8n-workflow';
-import { ApplicationError } from 'n8n-workflow';
-
-async function fysoLogin(baseUrl: string, email: string, password: string): Promise<string> {
-  const res = await fetch(`${baseUrl}/api/auth/login`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ email, password }),
-  });
-  const data = (await res.json()) as { success: boolean; data?: { token: string }; error?: string };
-  if (!data.success || !data.data?.token) {
-    throw new ApplicationError(`Fyso authentication failed: ${data.error ?? 'invalid credentials'}`);
+import { NodeOperationError } from 'n8n-workflow';
+
+import type {
+  FysoFilterOperator,
+  FysoSubscription,
+  FysoSubscriptionCondition,
+  FysoSubscriptionFilter,
+} from '../shared/FysoClient';
+import { FysoClient, getTenantParameter } from '../shared/FysoClient';
+import { authenticationProperty, fysoCredentials, listSearch, tenantProperty } from '../shared/FysoDescription';
+
+// Deliveries signed further than this from the current time are treated as replays.
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Checks the `x-fyso-signature` header, an HMAC-SHA256 of `<timestamp>.<raw body>`
+ * keyed with the subscription secret, and that `x-fyso-timestamp` is recent.
+ */
+function verifySignature(
+  secret: string,
+  rawBody: Buffer,
+  signatureHeader: string | undefined,
+  timestampHeader: string | undefined,
+): boolean {
+  if (!signatureHeader || !timestampHeader) return false;
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isFinite(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = createHmac('sha256', secret).update(`${timestampHeader}.`).update(rawBody).digest();
+  const received = Buffer.from(signatureHeader.replace(/^sha256=/, ''), 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Signatures accepted in this process, with the time (ms) their timestamp leaves the tolerance window.
+const acceptedSignatures = new Map<string, number>();
+
+// Bounds memory under a flood of valid deliveries; the oldest signatures are dropped first.
+const MAX_ACCEPTED_SIGNATURES = 10000;
+
+/**
+ * Remembers a verified signature until its timestamp expires, and reports whether it had
+ * already been accepted, i.e. whether the same delivery is being replayed.
+ */
+function isReplay(signatureHeader: string, timestamp: number): boolean {
+  const now = Date.now();
+  // Entries are in arrival order, so expired ones are almost always at the front.
+  for (const [key, expiresAt] of acceptedSignatures) {
+    if (expiresAt > now && acceptedSignatures.size < MAX_ACCEPTED_SIGNATURES) break;
+    acceptedSignatures.delete(key);
+  }
+
+  const key = signatureHeader.replace(/^sha256=/, '').toLowerCase();
+  if (acceptedSignatures.has(key)) return true;
+  acceptedSignatures.set(key, (timestamp + SIGNATURE_TOLERANCE_SECONDS) * 1000);
+  return false;
+}
+
+// ─── Event filtering ──────────────────────────────────────────────────────────
+
+interface FysoFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+function getSubscriptionFilter(ctx: IHookFunctions | IWebhookFunctions): FysoSubscriptionFilter {
+  const options = ctx.getNodeParameter('options', {}) as IDataObject;
+  const conditions = (options.conditions as { condition?: FysoSubscriptionCondition[] } | undefined)?.condition;
+  return {
+    changedFields: (options.changedFields as string[] | undefined) ?? [],
+    conditions: (conditions ?? []).filter((c) => c.field),
+  };
+}
+
+function asRecord(value: unknown): IDataObject | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as IDataObject) : undefined;
+}
+
+/** Reads the record state before the change; Fyso sends it as `previous` on updates. */
+function getPrevious(body: IDataObject): IDataObject | undefined {
+  return asRecord(body.previous) ?? asRecord(body.previousRecord);
+}
+
+/**
+ * Per-field `{ old, new }` for every field whose value differs between the two states.
+ * Falls back to the delivery's own `changedFields` list when no previous state was sent.
+ */
+function computeChanges(
+  record: IDataObject | undefined,
+  previous: IDataObject | undefined,
+  changedFields?: unknown,
+): Record<string, FysoFieldChange> {
+  const changes: Record<string, FysoFieldChange> = {};
+  if (!previous) {
+    if (Array.isArray(changedFields)) {
+      for (const field of changedFields as string[]) changes[field] = { old: undefined, new: record?.[field] };
+    }
+    return changes;
   }
-  return data.data.token;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(record ?? {})]);
+  for (const key of keys) {
+    const before = previous[key];
+    const after = record?.[key];
+    if (JSON.stringify(before) !== JSON.stringify(after)) changes[key] = { old: before, new: after };
+  }
+  return changes;
+}
+
+function matchesCondition(actual: unknown, operator: FysoFilterOperator, expected = ''): boolean {
+  const isEmpty = actual === undefined || actual === null || actual === '';
+  if (operator === 'isNull') return isEmpty;
+  if (operator === 'notNull') return !isEmpty;
+  if (isEmpty) return operator === 'eq' ? expected === '' : operator === 'neq' && expected !== '';
+
+  const text = typeof actual === 'object' ? JSON.stringify(actual) : String(actual);
+  const numeric = Number(actual);
+  const target = Number(expected);
+  const numbers = !Number.isNaN(numeric) && !Number.isNaN(target) && expected.trim() !== '';
+  switch (operator) {
+    case 'eq': return text === expected;
+    case 'neq': return text !== expected;
+    case 'gt': return numbers ? numeric > target : text > expected;
+    case 'gte': return numbers ? numeric >= target : text >= expected;
+    case 'lt': return numbers ? numeric < target : text < expected;
+    case 'lte': return numbers ? numeric <= target : text <= expected;
+    case 'contains': return text.includes(expected);
+    case 'in': return expected.split(',').map((v) => v.trim()).includes(text);
+    default: return false;
+  }
+}
+
+interface FysoTriggerEvent {
+  event?: string;
+  entity?: string;
+  recordId?: string;
+  tenantId?: string;
+  occurredAt?: string;
+  record?: IDataObject;
+  previous?: IDataObject;
+  changes: Record<string, FysoFieldChange>;
+}
+
+/** A delivery carries one event, or several as a top-level array or under `events`. */
+function splitDelivery(body: IDataObject | IDataObject[]): IDataObject[] {
+  if (Array.isArray(body)) return body;
+  if (Array.isArray(body.events)) return body.events as IDataObject[];
+  return [body];
+}
+
+function normalizeEvent(payload: IDataObject, defaults: { tenantId?: string; entity: string }): FysoTriggerEvent {
+  const record = asRecord(payload.record);
+  const previous = getPrevious(payload);
+  const recordId = payload.recordId ?? record?.id ?? previous?.id;
+  return {
+    event: (payload.event ?? payload.type) as string | undefined,
+    entity: ((payload.entityName ?? payload.entity) as string | undefined) ?? (defaults.entity || undefined),
+    recordId: recordId === undefined || recordId === null ? undefined : String(recordId),
+    tenantId: (payload.tenantId as string | undefined) ?? defaults.tenantId,
+    occurredAt: (payload.timestamp ?? payload.occurredAt) as string | undefined,
+    record,
+    previous,
+    changes: computeChanges(record, previous, payload.changedFields),
+  };
 }
 
-async function fysoSelectTenant(baseUrl: string, sessionToken: string, tenantId: string): Promise<string> {
-  const res = await fetch(`${baseUrl}/api/auth/tenants/${tenantId}/select`, {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${sessionToken}` },
-  });
-  const data = (await res.json()) as { success: boolean; data?: { token: string }; error?: string };
-  if (!data.success || !data.data?.token) {
-    throw new ApplicationError(`Fyso tenant selection failed: ${data.error ?? 'unknown error'}`);
+/** Whether a delivery tells what changed: it carries the previous state or a `changedFields` list. */
+function reportsChanges(payload: IDataObject): boolean {
+  return getPrevious(payload) !== undefined || Array.isArray(payload.changedFields);
+}
+
+/**
+ * Applies the trigger's filter locally, so it holds even if the server ignored it. Updates that
+ * do not tell what changed pass the Changed Fields check, which Fyso then already applied.
+ */
+function passesFilter(
+  filter: FysoSubscriptionFilter,
+  { event, record, previous, changes }: FysoTriggerEvent,
+  changesKnown: boolean,
+): boolean {
+  if (event === 'record.updated' && filter.changedFields?.length && changesKnown) {
+    if (!filter.changedFields.some((field) => field in changes)) return false;
+  }
+  return (filter.conditions ?? []).every(({ field, source, operator, value }) =>
+    matchesCondition((source === 'old' ? previous : record)?.[field], operator, value),
+  );
+}
+
+// ─── Subscription reconciliation ──────────────────────────────────────────────
+
+// Marks subscriptions created by this node, so ones left behind can be recognised.
+const SUBSCRIPTION_DESCRIPTION = 'n8n workflow trigger';
+
+async function deleteSubscriptionQuietly(client: FysoClient, subscriptionId: string): Promise<void> {
+  try {
+    await client.deleteSubscription(subscriptionId);
+  } catch {
+    // The subscription may already be gone on the Fyso side.
   }
-  return data.data.token;
 }
 
-async function getAuth(
-  ctx: IHookFunctions | IWebhookFunctions | ILoadOptionsFunctions,
-  tenantId?: string,
-): Promise<{ baseUrl: string; token: string }> {
-  const creds = await ctx.getCredentials('fysoApi');
-  const baseUrl = (creds.apiUrl as string).replace(/\/$/, '');
-  const sessionToken = await fysoLogin(baseUrl, creds.email as string, creds.password as string);
-  if (!tenantId) return { baseUrl, token: sessionToken };
-  const tenantToken = await fysoSelectTenant(baseUrl, sessionToken, tenantId);
-  return { baseUrl, token: tenantToken };
+function sameEventTypes(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join() === [...b].sort().join();
+}
+
+/** Entities the trigger subscribes to, one subscription each; "all" means every entity in the tenant right now. */
+async function getWatchedEntities(ctx: IHookFunctions | ILoadOptionsFunctions, client: FysoClient): Promise<string[]> {
+  const watch = ctx.getNodeParameter('watch', 'entity') as string;
+  if (watch === 'all') return (await client.listEntities()).map((e) => e.name);
+  if (watch === 'entities') return ctx.getNodeParameter('entityNames', []) as string[];
+  return [(ctx.getNodeParameter('entityName') as { value: string }).value];
+}
+
+/**
+ * Whether a subscription's filter matches the node's. Condition order does not matter, since all
+ * must hold. A filter Fyso does not report cannot be confirmed, so it counts as different.
+ */
+function sameFilter(current: FysoSubscriptionFilter | null | undefined, wanted: FysoSubscriptionFilter): boolean {
+  if (current === undefined) return false;
+  const normalize = (filter: FysoSubscriptionFilter | null) =>
+    JSON.stringify([
+      [...(filter?.changedFields ?? [])].sort(),
+      (filter?.conditions ?? [])
+        .map(({ field, source, operator, value }) => JSON.stringify([field, source, operator, value ?? '']))
+        .sort(),
+    ]);
+  return normalize(current) === normalize(wanted);
+}
+
+/** Whether a subscription still delivers to this URL for this entity. Fields Fyso omits are not drift. */
+function sameTarget(subscription: FysoSubscription, url: string, entityName: string): boolean {
+  return (subscription.url ?? url) === url && (subscription.entityName ?? entityName) === entityName;
 }
 
 export class FysoTrigger implements INodeType {
@@ -54,13 +251,14 @@ export class FysoTrigger implements INodeType {
     icon: 'file:fyso.svg',
     group: ['trigger'],
     version: 1,
-    subtitle: '={{$parameter["eventTypes"].join(", ") + " · " + $parameter["entityName"].value}}',
+    subtitle:
+      '={{$parameter["eventTypes"].join(", ") + " · " + ($parameter["watch"] === "all" ? "all entities" : $parameter["watch"] === "entities" ? $parameter["entityNames"].join(", ") : $parameter["entityName"].value)}}',
     description: 'Trigger a workflow when records are created, updated or deleted in Fyso',
     defaults: { name: 'Fyso Trigger' },
     usableAsTool: true,
     inputs: [],
     outputs: ['main'],
-    credentials: [{ name: 'fysoApi', required: true }],
+    credentials: fysoCredentials,
     webhooks: [
       {
         name: 'default',
@@ -70,39 +268,34 @@ export class FysoTrigger implements INodeType {
       },
     ],
     properties: [
+      // ── Authentication ──────────────────────────────────────────────────────
+      authenticationProperty,
       // ── Tenant ──────────────────────────────────────────────────────────────
+      tenantProperty('The Fyso tenant to listen for record events on'),
+      // ── Entity ──────────────────────────────────────────────────────────────
       {
-        displayName: 'Tenant',
-        name: 'tenantId',
-        type: 'resourceLocator',
-        default: { mode: 'list', value: '' },
-        required: true,
-        description: 'The Fyso tenant to listen for record events on',
-        hint: 'Each tenant is an isolated workspace with its own entities and records',
-        modes: [
-          {
-            displayName: 'List',
-            name: 'list',
-            type: 'list',
-            placeholder: 'Select a tenant...',
-            typeOptions: { searchListMethod: 'getTenants', searchable: true },
-          },
+        displayName: 'Watch',
+        name: 'watch',
+        type: 'options',
+        noDataExpression: true,
+        default: 'entity',
+        options: [
           {
-            displayName: 'ID',
-            name: 'id',
-            type: 'string',
-            placeholder: 'e.g. 550e8400-e29b-41d4-a716-446655440000',
-            validation: [{ type: 'regex', properties: { regex: '.+', errorMessage: 'Enter a valid tenant ID' } }],
+            name: 'All Entities',
+            value: 'all',
+            description: 'Every entity in the tenant at activation time. Reactivate to pick up new entities.',
           },
+          { name: 'Selected Entities', value: 'entities', description: 'Several entities, one subscription each' },
+          { name: 'Single Entity', value: 'entity' },
         ],
       },
-      // ── Entity ──────────────────────────────────────────────────────────────
       {
         displayName: 'Entity',
         name: 'entityName',
         type: 'resourceLocator',
         default: { mode: 'list', value: '' },
         required: true,
+        displayOptions: { show: { watch: ['entity'] } },
         description: 'The Fyso entity (data model) to watch for record events, e.g. patients, orders',
         hint: 'The trigger will fire whenever records in this entity change',
         modes: [
@@ -121,6 +314,17 @@ export class FysoTrigger implements INodeType {
           },
         ],
       },
+      {
+        displayName: 'Entity Names or IDs',
+        name: 'entityNames',
+        type: 'multiOptions',
+        default: [],
+        required: true,
+        displayOptions: { show: { watch: ['entities'] } },
+        description:
+          'The Fyso entities to watch for record events. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+        typeOptions: { loadOptionsMethod: 'getEntityOptions', loadOptionsDependsOn: ['tenantId.value'] },
+      },
       // ── Events ──────────────────────────────────────────────────────────────
       {
         displayName: 'Events',
@@ -135,33 +339,150 @@ export class FysoTrigger implements INodeType {
           { name: 'Record Updated', value: 'record.updated', description: 'Fires when an existing record is modified' },
         ],
       },
+      // ── Options ─────────────────────────────────────────────────────────────
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add option',
+        default: {},
+        options: [
+          {
+            displayName: 'Changed Field Names or IDs',
+            name: 'changedFields',
+            type: 'multiOptions',
+            default: [],
+            description:
+              'Only fire on updates that change at least one of these fields. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+            typeOptions: {
+              loadOptionsMethod: 'getFieldOptions',
+              loadOptionsDependsOn: ['tenantId.value', 'watch', 'entityName.value', 'entityNames'],
+            },
+          },
+          {
+            displayName: 'Conditions',
+            name: 'conditions',
+            type: 'fixedCollection',
+            placeholder: 'Add Condition',
+            default: {},
+            typeOptions: { multipleValues: true },
+            description: 'Only fire when the record matches all of these conditions',
+            options: [
+              {
+                displayName: 'Condition',
+                name: 'condition',
+                values: [
+                  {
+                    displayName: 'Field Name or ID',
+                    name: 'field',
+                    type: 'options',
+                    default: '',
+                    description:
+                      'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+                    typeOptions: {
+                      loadOptionsMethod: 'getFieldOptions',
+                      loadOptionsDependsOn: ['tenantId.value', 'watch', 'entityName.value', 'entityNames'],
+                    },
+                  },
+                  {
+                    displayName: 'Compare',
+                    name: 'source',
+                    type: 'options',
+                    default: 'new',
+                    options: [
+                      { name: 'New Value', value: 'new', description: 'The value after the change' },
+                      { name: 'Old Value', value: 'old', description: 'The value before the change (updates only)' },
+                    ],
+                  },
+                  {
+                    displayName: 'Operator',
+                    name: 'operator',
+                    type: 'options',
+                    default: 'eq',
+                    options: [
+                      { name: 'Contains', value: 'contains' },
+                      { name: 'Equals', value: 'eq' },
+                      { name: 'Greater Than', value: 'gt' },
+                      { name: 'Greater Than or Equal', value: 'gte' },
+                      { name: 'In List', value: 'in', description: 'Value is a comma-separated list' },
+                      { name: 'Is Empty', value: 'isNull' },
+                      { name: 'Is Not Empty', value: 'notNull' },
+                      { name: 'Less Than', value: 'lt' },
+                      { name: 'Less Than or Equal', value: 'lte' },
+                      { name: 'Not Equals', value: 'neq' },
+                    ],
+                  },
+                  {
+                    displayName: 'Value',
+                    name: 'value',
+                    type: 'string',
+                    default: '',
+                    displayOptions: { hide: { operator: ['isNull', 'notNull'] } },
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            displayName: 'Include Changes',
+            name: 'includeChanges',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether to add a `changes` object with the old and new value of every changed field. Normalized output always includes it.',
+          },
+          {
+            displayName: 'Include Raw Payload',
+            name: 'includeRaw',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to keep the original delivery under `raw` when using the normalized output format',
+          },
+          {
+            displayName: 'Output Format',
+            name: 'outputFormat',
+            type: 'options',
+            default: 'raw',
+            options: [
+              {
+                name: 'Normalized',
+                value: 'normalized',
+                description:
+                  'One item per event shaped as event, entity, recordId, tenantId, occurredAt, record, previous and changes',
+              },
+              { name: 'Raw', value: 'raw', description: 'One item per event exactly as Fyso delivered it' },
+            ],
+          },
+        ],
+      },
     ],
   };
 
   methods = {
-    listSearch: {
-      async getTenants(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
-        const creds = await this.getCredentials('fysoApi');
-        const baseUrl = (creds.apiUrl as string).replace(/\/$/, '');
-        const token = await fysoLogin(baseUrl, creds.email as string, creds.password as string);
-        const res = await fetch(`${baseUrl}/api/auth/tenants`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = (await res.json()) as { success: boolean; data?: Array<{ id: string; name: string; slug: string }> };
-        if (!data.success || !data.data) return { results: [] };
-        return { results: data.data.map((t) => ({ name: `${t.name} (${t.slug})`, value: t.id })) };
+    listSearch,
+
+    loadOptions: {
+      async getEntityOptions(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+        const client = new FysoClient(this, getTenantParameter(this));
+        if (!client.hasTenant()) return [];
+        const entities = await client.listEntities();
+        return entities.map((e) => ({ name: e.displayName ?? e.name, value: e.name }));
       },
 
-      async getEntities(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
-        const tenantLocator = this.getNodeParameter('tenantId') as { value: string };
-        if (!tenantLocator.value) return { results: [] };
-        const { baseUrl, token } = await getAuth(this, tenantLocator.value);
-        const res = await fetch(`${baseUrl}/api/metadata/entities`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = (await res.json()) as { success: boolean; data?: Array<{ name: string; displayName: string }> };
-        if (!data.success || !data.data) return { results: [] };
-        return { results: data.data.map((e) => ({ name: e.displayName ?? e.name, value: e.name })) };
+      /** Fields of every watched entity, so filters can name a field shared by several of them. */
+      async getFieldOptions(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+        const client = new FysoClient(this, getTenantParameter(this));
+        if (!client.hasTenant()) return [];
+
+        const entityNames = (await getWatchedEntities(this, client)).filter(Boolean);
+        const options = new Map<string, INodePropertyOptions>();
+        for (const entityName of entityNames) {
+          const entity = await client.getEntity(entityName);
+          for (const f of entity.fields ?? []) {
+            if (!options.has(f.fieldKey)) options.set(f.fieldKey, { name: f.name, value: f.fieldKey, description: f.fieldType });
+          }
+        }
+        return [...options.values()];
       },
     },
   };
@@ -169,62 +490,168 @@ export class FysoTrigger implements INodeType {
   webhookMethods = {
     default: {
       async checkExists(this: IHookFunctions): Promise<boolean> {
-        const webhookId = this.getWorkflowStaticData('node').webhookId as string | undefined;
-        if (!webhookId) return false;
-        const tenantLocator = this.getNodeParameter('tenantId') as { value: string };
-        const entityLocator = this.getNodeParameter('entityName') as { value: string };
-        const { baseUrl, token } = await getAuth(this, tenantLocator.value);
-        const res = await fetch(
-          `${baseUrl}/api/webhooks/subscriptions?entityName=${entityLocator.value}`,
-          { headers: { Authorization: `Bearer ${token}` } },
+        const staticData = this.getWorkflowStaticData('node');
+        const eventTypes = this.getNodeParameter('eventTypes') as string[];
+        const filter = getSubscriptionFilter(this);
+        const webhookUrl = this.getNodeWebhookUrl('default') as string;
+        const client = new FysoClient(this, getTenantParameter(this));
+        // Subscription ID per entity. Single-entity triggers used to keep one `webhookId`, which is
+        // no longer tracked and so gets cleaned up below as an orphan.
+        const tracked = (staticData.webhookIds ?? {}) as Record<string, string>;
+        delete staticData.webhookId;
+
+        let entityNames: string[];
+        let subscriptions: FysoSubscription[];
+        try {
+          entityNames = await getWatchedEntities(this, client);
+          subscriptions = await client.listSubscriptions();
+        } catch {
+          return false;
+        }
+
+        // Subscriptions for this URL that the node no longer tracks, e.g. after its static data was lost.
+        const trackedIds = new Set(Object.values(tracked));
+        const orphans = subscriptions.filter(
+          (s) => !trackedIds.has(s.id) && s.url === webhookUrl && s.description === SUBSCRIPTION_DESCRIPTION,
         );
-        const data = (await res.json()) as { success: boolean; data?: Array<{ id: string }> };
-        if (!data.success || !data.data) return false;
-        return data.data.some((w) => w.id === webhookId);
+        for (const orphan of orphans) await deleteSubscriptionQuietly(client, orphan.id);
+
+        const forget = async (entityName: string) => {
+          await deleteSubscriptionQuietly(client, tracked[entityName]);
+          delete tracked[entityName];
+        };
+
+        for (const [entityName, subscriptionId] of Object.entries(tracked)) {
+          const current = subscriptions.find((s) => s.id === subscriptionId);
+          if (!current) {
+            delete tracked[entityName];
+          } else if (
+            // Recreate when the entity is no longer watched, the URL or entity changed, or the
+            // subscription predates signed deliveries.
+            !entityNames.includes(entityName) ||
+            !staticData.webhookSecret ||
+            !sameTarget(current, webhookUrl, entityName)
+          ) {
+            await forget(entityName);
+          } else if (
+            (current.eventTypes && !sameEventTypes(current.eventTypes, eventTypes)) ||
+            !sameFilter(current.filter, filter)
+          ) {
+            try {
+              await client.updateSubscription(current.id, { eventTypes, filter });
+            } catch {
+              await forget(entityName);
+            }
+          }
+        }
+
+        staticData.webhookIds = tracked;
+        return entityNames.every((entityName) => entityName in tracked);
       },
 
       async create(this: IHookFunctions): Promise<boolean> {
-        const tenantLocator = this.getNodeParameter('tenantId') as { value: string };
-        const entityLocator = this.getNodeParameter('entityName') as { value: string };
+        const staticData = this.getWorkflowStaticData('node');
         const eventTypes = this.getNodeParameter('eventTypes') as string[];
-        const webhookUrl = this.getNodeWebhookUrl('default');
-
-        const { baseUrl, token } = await getAuth(this, tenantLocator.value);
-        const res = await fetch(`${baseUrl}/api/webhooks/subscriptions`, {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            entityName: entityLocator.value,
-            eventTypes,
-            url: webhookUrl,
-            description: 'n8n workflow trigger',
-          }),
-        });
-        const data = (await res.json()) as { success: boolean; data?: { id: string } };
-        if (!data.success || !data.data?.id) return false;
-        this.getWorkflowStaticData('node').webhookId = data.data.id;
+        const webhookUrl = this.getNodeWebhookUrl('default') as string;
+        const client = new FysoClient(this, getTenantParameter(this));
+        const tracked = (staticData.webhookIds ?? {}) as Record<string, string>;
+        // All subscriptions of the node share one secret; a new one is only needed when none is tracked.
+        const secret =
+          Object.keys(tracked).length && staticData.webhookSecret
+            ? (staticData.webhookSecret as string)
+            : randomBytes(32).toString('hex');
+        staticData.webhookSecret = secret;
+
+        for (const entityName of await getWatchedEntities(this, client)) {
+          if (entityName in tracked) continue;
+          try {
+            const subscription = await client.createSubscription({
+              entityName,
+              eventTypes,
+              url: webhookUrl,
+              description: SUBSCRIPTION_DESCRIPTION,
+              secret,
+              filter: getSubscriptionFilter(this),
+            });
+            tracked[entityName] = subscription.id;
+            staticData.webhookIds = tracked;
+          } catch (error) {
+            throw new NodeOperationError(
+              this.getNode(),
+              `Could not register the Fyso webhook for "${entityName}": ${(error as Error).message}`,
+              {
+                description: `Check that the credential may manage webhooks in this tenant and that Fyso can reach ${webhookUrl}`,
+              },
+            );
+          }
+        }
         return true;
       },
 
       async delete(this: IHookFunctions): Promise<boolean> {
-        const webhookId = this.getWorkflowStaticData('node').webhookId as string | undefined;
-        if (!webhookId) return true;
-        const tenantLocator = this.getNodeParameter('tenantId') as { value: string };
-        const { baseUrl, token } = await getAuth(this, tenantLocator.value);
-        await fetch(`${baseUrl}/api/webhooks/subscriptions/${webhookId}`, {
-          method: 'DELETE',
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        delete this.getWorkflowStaticData('node').webhookId;
+        const staticData = this.getWorkflowStaticData('node');
+        const client = new FysoClient(this, getTenantParameter(this));
+        const tracked = (staticData.webhookIds ?? {}) as Record<string, string>;
+        const subscriptionIds = [...Object.values(tracked), staticData.webhookId as string | undefined];
+        for (const subscriptionId of subscriptionIds) {
+          if (subscriptionId) await deleteSubscriptionQuietly(client, subscriptionId);
+        }
+        delete staticData.webhookId;
+        delete staticData.webhookIds;
+        delete staticData.webhookSecret;
         return true;
       },
     },
   };
 
   async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
-    const body = this.getBodyData();
+    const secret = this.getWorkflowStaticData('node').webhookSecret as string | undefined;
+    const req = this.getRequestObject();
+    const headers = this.getHeaderData();
+    const signature = headers['x-fyso-signature'] as string | undefined;
+    const timestamp = headers['x-fyso-timestamp'] as string | undefined;
+
+    const reject = (message: string): IWebhookResponseData => {
+      this.getResponseObject().status(401).send(message).end();
+      return { noWebhookResponse: true };
+    };
+    if (!secret || !req.rawBody || !verifySignature(secret, req.rawBody, signature, timestamp)) {
+      return reject('Invalid or expired Fyso webhook signature');
+    }
+    if (isReplay(signature as string, Number(timestamp))) {
+      return reject('Fyso webhook delivery was already received');
+    }
+
+    const options = this.getNodeParameter('options', {}) as IDataObject;
+    const filter = getSubscriptionFilter(this);
+    // Deliveries that do not name their entity can only be attributed when a single one is watched.
+    const defaults = {
+      tenantId: getTenantParameter(this) || undefined,
+      entity:
+        this.getNodeParameter('watch', 'entity') === 'entity'
+          ? (this.getNodeParameter('entityName') as { value: string }).value
+          : '',
+    };
+
+    const items: INodeExecutionData[] = [];
+    for (const payload of splitDelivery(this.getBodyData() as IDataObject | IDataObject[])) {
+      const event = normalizeEvent(payload, defaults);
+      if (!passesFilter(filter, event, reportsChanges(payload))) continue;
+
+      let json: IDataObject;
+      if (options.outputFormat === 'normalized') {
+        json = { ...event } as IDataObject;
+        if (options.includeRaw) json.raw = payload;
+      } else {
+        json = options.includeChanges ? { ...payload, changes: event.changes as IDataObject } : { ...payload };
+        if (json.entityName === undefined && json.entity === undefined && event.entity) json.entityName = event.entity;
+      }
+      items.push({ json });
+    }
+
+    if (items.length === 0) return {};
     return {
-      workflowData: [[{ json: body as IDataObject }]],
+      workflowData: [items],
     };
   }
 }
@@ -0,0 +1,1242 @@
+import { createHash, randomBytes } from 'crypto';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  IHookFunctions,
+  ILoadOptionsFunctions,
+  IPollFunctions,
+  IWebhookFunctions,
+  JsonObject,
+} from 'n8n-workflow';
+import { NodeApiError, sleep } from 'n8n-workflow';
+
+export type FysoContext =
+  | IExecuteFunctions
+  | IHookFunctions
+  | ILoadOptionsFunctions
+  | IPollFunctions
+  | IWebhookFunctions;
+
+// ─── API types ────────────────────────────────────────────────────────────────
+
+export interface FysoTenant {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface FysoTenantInput {
+  name: string;
+  slug?: string;
+}
+
+export interface FysoEntity {
+  name: string;
+  displayName?: string;
+}
+
+export interface FysoFieldOption {
+  value: string;
+  label?: string;
+}
+
+export interface FysoField {
+  fieldKey: string;
+  name: string;
+  fieldType: string;
+  isRequired?: boolean;
+  /** `relatedEntity` names the entity a `relation` field points at. */
+  config?: { options?: Array<FysoFieldOption | string>; relatedEntity?: string };
+}
+
+export interface FysoEntitySchema extends FysoEntity {
+  fields?: FysoField[];
+}
+
+export interface FysoEntityInput {
+  name: string;
+  displayName?: string;
+  description?: string;
+}
+
+export interface FysoFieldInput {
+  fieldKey?: string;
+  name?: string;
+  fieldType?: string;
+  isRequired?: boolean;
+  config?: { options?: FysoFieldOption[]; relatedEntity?: string };
+}
+
+export interface FysoSubscription {
+  id: string;
+  entityName?: string;
+  eventTypes?: string[];
+  url?: string;
+  description?: string;
+  /** `null` when the subscription has no filter; missing when Fyso does not report it. */
+  filter?: FysoSubscriptionFilter | null;
+}
+
+export interface FysoSubscriptionCondition {
+  field: string;
+  /** Compare the record's value after (`new`) or before (`old`) the change. */
+  source: 'new' | 'old';
+  operator: FysoFilterOperator;
+  value?: string;
+}
+
+export interface FysoSubscriptionFilter {
+  changedFields?: string[];
+  conditions?: FysoSubscriptionCondition[];
+}
+
+export interface FysoSubscriptionInput {
+  entityName: string;
+  eventTypes: string[];
+  url: string;
+  description?: string;
+  /** Shared secret Fyso uses to sign every delivery with HMAC-SHA256. */
+  secret?: string;
+  /** Server-side event filter; servers that ignore it are covered by the trigger's own check. */
+  filter?: FysoSubscriptionFilter;
+}
+
+export type FysoFilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'in'
+  | 'isNull'
+  | 'notNull';
+
+export interface FysoFilter {
+  field: string;
+  operator: FysoFilterOperator;
+  value?: string;
+}
+
+export interface FysoListQuery {
+  limit?: number;
+  offset?: number;
+  filters?: FysoFilter[];
+  sort?: string;
+  sortDirection?: 'asc' | 'desc';
+  fields?: string[];
+}
+
+export interface FysoUpdateOptions {
+  /** Send only the given fields with PATCH instead of replacing the record with PUT. */
+  partial?: boolean;
+  /** Fail with a conflict when the record's `field` (e.g. `version` or `updatedAt`) no longer equals `value`. */
+  expected?: { field: string; value: string };
+}
+
+export interface FysoSearchOptions {
+  /** Fields to search in; all text fields when empty. */
+  fields?: string[];
+  limit?: number;
+}
+
+export type FysoAggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface FysoAggregateQuery {
+  functions: FysoAggregateFunction[];
+  /** Field that sum, avg, min and max are computed over; count counts records. */
+  field?: string;
+  groupBy?: string;
+  filters?: FysoFilter[];
+}
+
+export interface FysoBulkOptions {
+  /** Parallel single requests when the server has no bulk endpoint. */
+  concurrency?: number;
+  /** Updates patch only the given fields. */
+  partial?: boolean;
+  /** Deletes remove records for good, or move them to the trash when `false`; unset leaves it to Fyso. */
+  permanent?: boolean;
+}
+
+export type FysoBulkOperation = 'create' | 'update' | 'delete';
+
+export interface FysoBulkEntry {
+  id?: string;
+  data?: IDataObject;
+}
+
+export interface FysoBulkResult {
+  success: boolean;
+  record?: IDataObject;
+  error?: string;
+}
+
+export type FysoQuery = Record<string, string | number | boolean | undefined>;
+
+export interface FysoFile {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface FysoRequestOptions {
+  body?: IDataObject | IDataObject[];
+  /** Sent as the `file` part of a multipart body instead of a JSON body. */
+  file?: FysoFile;
+  qs?: FysoQuery;
+  /** Prefix for the error message when the request fails. */
+  errorMessage?: string;
+  /** Send the session token instead of the tenant token, e.g. to list tenants. */
+  session?: boolean;
+  headers?: Record<string, string>;
+}
+
+export interface FysoRetryPolicy {
+  /** Total attempts per request, including the first; 1 disables retries. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface FysoClientOptions {
+  retry?: Partial<FysoRetryPolicy>;
+}
+
+export const DEFAULT_RETRY_POLICY: FysoRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+};
+
+interface FysoEnvelope<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// ─── Retries ──────────────────────────────────────────────────────────────────
+
+// Rate limits and gateway errors are transient; anything else is returned as-is.
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+// Repeating these has the same effect as sending them once.
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+function isIdempotent(init: RequestInit): boolean {
+  return (
+    IDEMPOTENT_METHODS.has((init.method ?? 'GET').toUpperCase()) || new Headers(init.headers).has('idempotency-key')
+  );
+}
+
+/**
+ * A gateway error or a dropped connection may come after the server committed a write, so
+ * other requests are only repeated when the server refused them: a 429, or a 503 with `Retry-After`.
+ */
+function canRetry(idempotent: boolean, res: Response): boolean {
+  if (!RETRYABLE_STATUSES.has(res.status)) return false;
+  return idempotent || res.status === 429 || (res.status === 503 && res.headers.has('retry-after'));
+}
+
+/** The wait a response asks for in `Retry-After`, in ms, or undefined without a valid header. */
+function retryAfterMs(res: Response): number | undefined {
+  const retryAfter = res.headers.get('retry-after');
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+  return Number.isNaN(ms) ? undefined : Math.max(ms, 0);
+}
+
+// Exponential backoff with full jitter.
+function backoff(policy: FysoRetryPolicy, attempt: number): number {
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+/**
+ * `fetch` with retries on network errors, 429 and 502–504, honouring `Retry-After`. Requests
+ * that are not idempotent, nor sent with an `Idempotency-Key`, are only retried as `canRetry`
+ * allows; `idempotent` overrides that for requests without side effects, such as logins.
+ * The last response is returned unchanged so callers can map it to an error.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  policy: FysoRetryPolicy,
+  idempotent = isIdempotent(init),
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !idempotent) throw error;
+      await sleep(backoff(policy, attempt));
+      continue;
+    }
+    if (attempt >= policy.maxAttempts || !canRetry(idempotent, res)) return res;
+    // Retrying sooner than asked would be refused again, so a longer wait than allowed ends here.
+    const retryAfter = retryAfterMs(res);
+    if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) return res;
+    await res.text();
+    await sleep(retryAfter ?? backoff(policy, attempt));
+  }
+}
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+function apiError(ctx: FysoContext, message: string, status: number, description?: string): NodeApiError {
+  return new NodeApiError(ctx.getNode(), { message, statusCode: status } as JsonObject, {
+    message,
+    description,
+    httpCode: String(status),
+  });
+}
+
+/**
+ * Unwraps Fyso's `{ success, data, error }` envelope, throwing a NodeApiError for
+ * HTTP failures, unsuccessful envelopes and bodies that are not JSON at all.
+ */
+async function unwrap<T>(ctx: FysoContext, res: Response, errorMessage: string): Promise<T | undefined> {
+  const text = await res.text();
+  let envelope: FysoEnvelope<T>;
+  try {
+    envelope = JSON.parse(text) as FysoEnvelope<T>;
+  } catch {
+    throw apiError(ctx, `${errorMessage}: Fyso returned a non-JSON response`, res.status, text.slice(0, 500));
+  }
+  if (!res.ok || !envelope?.success) {
+    const reason = envelope?.error ?? (res.ok ? undefined : `HTTP ${res.status}`);
+    const retryAfter = res.status === 429 ? res.headers.get('retry-after') : null;
+    const description = retryAfter
+      ? `Fyso is rate limiting requests and asked to retry after ${/^\d+$/.test(retryAfter) ? `${retryAfter} seconds` : retryAfter}`
+      : undefined;
+    throw apiError(ctx, reason ? `${errorMessage}: ${reason}` : errorMessage, res.status, description);
+  }
+  return envelope.data;
+}
+
+function multipartBody(file: FysoFile): { body: Buffer; contentType: string } {
+  const boundary = `----fyso${randomBytes(12).toString('hex')}`;
+  const fileName = file.fileName.replace(/["\r\n]/g, '_');
+  const head =
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="file"; filename="${fileName}"\r\n` +
+    `Content-Type: ${file.mimeType}\r\n\r\n`;
+  return {
+    body: Buffer.concat([Buffer.from(head), file.data, Buffer.from(`\r\n--${boundary}--\r\n`)]),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
+
+/** Reads the filename from a `Content-Disposition` header, preferring the RFC 5987 `filename*` form. */
+function dispositionFileName(header: string | null): string | undefined {
+  if (!header) return undefined;
+  const encoded = /filename\*=(?:UTF-8'')?([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall back to the plain filename parameter.
+    }
+  }
+  return /filename="?([^";]+)"?/i.exec(header)?.[1];
+}
+
+/**
+ * Ranks a record for a free-text query: every term must appear in one of the searched
+ * values, and values equal to the whole query rank above partial matches. 0 means no match.
+ */
+function searchScore(record: IDataObject, terms: string[], query: string, fields?: string[]): number {
+  const keys = fields?.length ? fields : Object.keys(record).filter((key) => key !== 'id');
+  const values = keys
+    .map((key) => record[key])
+    .filter((value) => typeof value === 'string' || typeof value === 'number')
+    .map((value) => String(value).toLowerCase());
+  if (!terms.every((term) => values.some((value) => value.includes(term)))) return 0;
+  return 1 + values.filter((value) => value === query).length;
+}
+
+interface AggregateGroup {
+  group: unknown;
+  count: number;
+  sum: number;
+  /** Numeric values, which sum and avg are computed over. */
+  numbers: number;
+  /** Numbers, or text such as ISO dates for values that are not numeric. */
+  min?: number | string;
+  max?: number | string;
+}
+
+function accumulate(group: AggregateGroup, value: unknown): void {
+  group.count++;
+  if (value === undefined || value === null || value === '') return;
+  const number = typeof value === 'number' ? value : Number(value);
+  const comparable = Number.isFinite(number) ? number : String(value);
+  if (typeof comparable === 'number') {
+    group.sum += comparable;
+    group.numbers++;
+  }
+  if (group.min === undefined || comparable < group.min) group.min = comparable;
+  if (group.max === undefined || comparable > group.max) group.max = comparable;
+}
+
+/** Compares version values, treating two timestamps for the same instant as equal. */
+function sameVersion(actual: unknown, expected: string): boolean {
+  if (String(actual) === expected) return true;
+  const isTimestamp = (value: string) => /^\d{4}-\d{2}-\d{2}T/.test(value);
+  if (typeof actual !== 'string' || !isTimestamp(actual) || !isTimestamp(expected)) return false;
+  return new Date(actual).getTime() === new Date(expected).getTime();
+}
+
+/** Soft deletes answer with the trashed record; without its `deletedAt` it may be gone for good. */
+function confirmsTrash(record: IDataObject | undefined): boolean {
+  return Boolean(record?.deletedAt);
+}
+
+const UNCONFIRMED_TRASH =
+  'Fyso did not confirm that the record was moved to the trash, so it may have been deleted permanently';
+
+/** Runs `fn` over `items` with at most `concurrency` calls in flight, preserving order. */
+async function mapConcurrent<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+}
+
+// ─── Auth & token cache ───────────────────────────────────────────────────────
+
+export type FysoAuthentication = 'password' | 'apiKey';
+
+interface FysoAuth {
+  baseUrl: string;
+  token: string;
+  /** Whether a 401 can be fixed by logging in again; API keys cannot. */
+  refreshable: boolean;
+}
+
+// Session and tenant tokens are reused for this long; a 401 refreshes them sooner.
+const TOKEN_TTL_MS = 10 * 60 * 1000;
+
+interface CachedToken {
+  token: Promise<string>;
+  expiresAt: number;
+}
+
+// Shared by every node instance in the process, keyed per credential and tenant.
+const tokenCache = new Map<string, CachedToken>();
+
+async function fysoLogin(
+  ctx: FysoContext,
+  baseUrl: string,
+  email: string,
+  password: string,
+  retry: FysoRetryPolicy,
+): Promise<string> {
+  const res = await fetchWithRetry(
+    `${baseUrl}/api/auth/login`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    },
+    retry,
+    // A repeated login only issues another token.
+    true,
+  );
+  const data = await unwrap<{ token?: string }>(ctx, res, 'Fyso authentication failed');
+  if (!data?.token) throw apiError(ctx, 'Fyso authentication failed: no token returned', res.status);
+  return data.token;
+}
+
+async function fysoSelectTenant(
+  ctx: FysoContext,
+  baseUrl: string,
+  sessionToken: string,
+  tenantId: string,
+  retry: FysoRetryPolicy,
+): Promise<string> {
+  const res = await fetchWithRetry(
+    `${baseUrl}/api/auth/tenants/${encodeURIComponent(tenantId)}/select`,
+    { method: 'POST', headers: { Authorization: `Bearer ${sessionToken}` } },
+    retry,
+    // Selecting a tenant again only issues another tenant token.
+    true,
+  );
+  const data = await unwrap<{ token?: string }>(ctx, res, 'Fyso tenant selection failed');
+  if (!data?.token) throw apiError(ctx, 'Fyso tenant selection failed: no token returned', res.status);
+  return data.token;
+}
+
+function credentialKey(baseUrl: string, email: string, password: string): string {
+  // Hashing the password means a rotated credential never reuses a stale token.
+  return createHash('sha256').update(`${baseUrl}\n${email}\n${password}`).digest('hex');
+}
+
+function cachedToken(key: string, fetchToken: () => Promise<string>): Promise<string> {
+  const entry = tokenCache.get(key);
+  if (entry && entry.expiresAt > Date.now()) return entry.token;
+
+  // The pending promise is cached so concurrent callers share a single login.
+  const token = fetchToken();
+  tokenCache.set(key, { token, expiresAt: Date.now() + TOKEN_TTL_MS });
+  token.catch(() => {
+    if (tokenCache.get(key)?.token === token) tokenCache.delete(key);
+  });
+  return token;
+}
+
+/**
+ * Reads the node's Authentication parameter. It is never an expression, so the raw
+ * node parameters are safe to use from every context type.
+ */
+function getAuthentication(ctx: FysoContext): FysoAuthentication {
+  return (ctx.getNode().parameters.authentication as FysoAuthentication | undefined) ?? 'password';
+}
+
+/**
+ * Reads the node's Tenant parameter outside of `execute`. The nodes hide it for API keys, which
+ * only reach the tenant they were issued for, so it is empty then as well as before a pick.
+ */
+export function getTenantParameter(ctx: Exclude<FysoContext, IExecuteFunctions>): string {
+  return (ctx.getNodeParameter('tenantId', { value: '' }) as { value: string }).value;
+}
+
+async function getAuth(
+  ctx: FysoContext,
+  tenantId: string | undefined,
+  retry: FysoRetryPolicy,
+  refresh = false,
+): Promise<FysoAuth> {
+  if (getAuthentication(ctx) === 'apiKey') {
+    // API keys are already scoped to a tenant, so there is no login or tenant selection.
+    const creds = await ctx.getCredentials('fysoTokenApi');
+    const baseUrl = (creds.apiUrl as string).replace(/\/$/, '');
+    return { baseUrl, token: creds.apiKey as string, refreshable: false };
+  }
+
+  const creds = await ctx.getCredentials('fysoApi');
+  const baseUrl = (creds.apiUrl as string).replace(/\/$/, '');
+  const email = creds.email as string;
+  const password = creds.password as string;
+
+  const sessionKey = credentialKey(baseUrl, email, password);
+  const tenantKey = tenantId ? `${sessionKey}:${tenantId}` : undefined;
+  if (refresh) {
+    tokenCache.delete(sessionKey);
+    if (tenantKey) tokenCache.delete(tenantKey);
+  }
+
+  const sessionToken = await cachedToken(sessionKey, () => fysoLogin(ctx, baseUrl, email, password, retry));
+  if (!tenantId || !tenantKey) return { baseUrl, token: sessionToken, refreshable: true };
+  const tenantToken = await cachedToken(tenantKey, () =>
+    fysoSelectTenant(ctx, baseUrl, sessionToken, tenantId, retry),
+  );
+  return { baseUrl, token: tenantToken, refreshable: true };
+}
+
+// ─── Relations ────────────────────────────────────────────────────────────────
+
+// A relation value written as `field=value` is looked up instead of being taken as an ID.
+const RELATION_LOOKUP = /^([A-Za-z_][\w.]*)=(.+)$/s;
+
+// Related IDs are fetched with one `in` filter per this many IDs.
+const RELATION_PAGE_SIZE = 100;
+
+function relationIds(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v) => typeof v === 'string' || typeof v === 'number')
+    .map(String)
+    .filter(Boolean);
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────────
+
+/**
+ * Typed wrapper around the Fyso REST API shared by the Fyso and Fyso Trigger nodes.
+ * Login tokens are cached per credential and tenant, and refreshed once on a 401;
+ * transient failures are retried according to the client's retry policy.
+ */
+export class FysoClient {
+  // Set once the bulk endpoint answers 404/405, so later batches go straight to the fallback.
+  private bulkUnsupported = false;
+
+  // Same for the search and aggregate endpoints.
+  private searchUnsupported = false;
+
+  private aggregateUnsupported = false;
+
+  private readonly retry: FysoRetryPolicy;
+
+  // Entity schemas looked up while coercing values or resolving relations.
+  private readonly schemas = new Map<string, Promise<FysoEntitySchema>>();
+
+  constructor(
+    private readonly ctx: FysoContext,
+    readonly tenantId?: string,
+    options: FysoClientOptions = {},
+  ) {
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  }
+
+  /** Whether tenant data can be reached: a tenant was picked, or the API key implies one. */
+  hasTenant(): boolean {
+    return Boolean(this.tenantId) || getAuthentication(this.ctx) === 'apiKey';
+  }
+
+  async request<T>(method: string, path: string, options: FysoRequestOptions = {}): Promise<T | undefined> {
+    const errorMessage = options.errorMessage ?? `Fyso request ${method} ${path} failed`;
+    return await unwrap<T>(this.ctx, await this.fetchResponse(method, path, options), errorMessage);
+  }
+
+  /** Sends an authenticated request and returns the raw response, e.g. for file downloads. */
+  private async fetchResponse(method: string, path: string, options: FysoRequestOptions): Promise<Response> {
+    const errorMessage = options.errorMessage ?? `Fyso request ${method} ${path} failed`;
+    const tenantId = options.session ? undefined : this.tenantId;
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.qs ?? {})) {
+      if (value !== undefined && value !== '') query.append(key, String(value));
+    }
+    const url = query.toString() ? `${path}?${query.toString()}` : path;
+
+    let body: string | Buffer | undefined;
+    let contentType: string | undefined;
+    if (options.file) {
+      ({ body, contentType } = multipartBody(options.file));
+    } else if (options.body !== undefined) {
+      body = JSON.stringify(options.body);
+      contentType = 'application/json';
+    }
+
+    const send = async ({ baseUrl, token }: FysoAuth): Promise<Response> => {
+      const headers: Record<string, string> = { ...options.headers, Authorization: `Bearer ${token}` };
+      if (contentType) headers['Content-Type'] = contentType;
+      try {
+        return await fetchWithRetry(`${baseUrl}${url}`, { method, headers, body }, this.retry);
+      } catch (error) {
+        throw new NodeApiError(this.ctx.getNode(), error as JsonObject, {
+          message: `${errorMessage}: ${(error as Error).message}`,
+        });
+      }
+    };
+
+    const auth = await getAuth(this.ctx, tenantId, this.retry);
+    let res = await send(auth);
+    if (res.status === 401 && auth.refreshable) res = await send(await getAuth(this.ctx, tenantId, this.retry, true));
+    return res;
+  }
+
+  // ── Tenants ────────────────────────────────────────────────────────────────
+
+  async listTenants(): Promise<FysoTenant[]> {
+    const tenants = await this.request<FysoTenant[]>('GET', '/api/auth/tenants', {
+      session: true,
+      errorMessage: 'Failed to list tenants',
+    });
+    return tenants ?? [];
+  }
+
+  async getTenant(tenantId: string): Promise<FysoTenant> {
+    const tenant = await this.request<FysoTenant>('GET', `/api/auth/tenants/${encodeURIComponent(tenantId)}`, {
+      session: true,
+      errorMessage: `Tenant ${tenantId} not found`,
+    });
+    return tenant ?? { id: tenantId, name: '', slug: '' };
+  }
+
+  async createTenant(input: FysoTenantInput): Promise<FysoTenant> {
+    const tenant = await this.request<FysoTenant>('POST', '/api/auth/tenants', {
+      session: true,
+      body: { ...input },
+      errorMessage: `Failed to create tenant ${input.name}`,
+    });
+    if (!tenant?.id) {
+      throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+        message: `Failed to create tenant ${input.name}: Fyso returned no tenant ID`,
+      });
+    }
+    return tenant;
+  }
+
+  /**
+   * Selects a tenant with a fresh login, proving the credential can access it. The
+   * tenant token is cached for later requests; API keys are already tenant-scoped.
+   */
+  async selectTenant(tenantId: string): Promise<void> {
+    await getAuth(this.ctx, tenantId, this.retry, true);
+  }
+
+  // ── Metadata ───────────────────────────────────────────────────────────────
+
+  async listEntities(): Promise<FysoEntity[]> {
+    const entities = await this.request<FysoEntity[]>('GET', '/api/metadata/entities', {
+      errorMessage: 'Failed to list entities',
+    });
+    return entities ?? [];
+  }
+
+  async getEntity(entityName: string): Promise<FysoEntitySchema> {
+    const entity = await this.request<FysoEntitySchema>(
+      'GET',
+      `/api/metadata/entities/${encodeURIComponent(entityName)}`,
+      { errorMessage: `Failed to load entity ${entityName}` },
+    );
+    return entity ?? { name: entityName };
+  }
+
+  /** Like `getEntity(...).fields`, but loaded once per client. */
+  async getEntityFields(entityName: string): Promise<FysoField[]> {
+    let schema = this.schemas.get(entityName);
+    if (!schema) {
+      schema = this.getEntity(entityName);
+      this.schemas.set(entityName, schema);
+    }
+    return (await schema).fields ?? [];
+  }
+
+  async createEntity(input: FysoEntityInput): Promise<FysoEntitySchema> {
+    const entity = await this.request<FysoEntitySchema>('POST', '/api/metadata/entities', {
+      body: { ...input },
+      errorMessage: `Failed to create entity ${input.name}`,
+    });
+    return entity ?? { name: input.name };
+  }
+
+  private fieldsPath(entityName: string, fieldKey?: string): string {
+    const base = `/api/metadata/entities/${encodeURIComponent(entityName)}/fields`;
+    return fieldKey === undefined ? base : `${base}/${encodeURIComponent(fieldKey)}`;
+  }
+
+  async addField(entityName: string, input: FysoFieldInput): Promise<IDataObject> {
+    const field = await this.request<IDataObject>('POST', this.fieldsPath(entityName), {
+      body: { ...input },
+      errorMessage: `Failed to add field ${input.fieldKey ?? ''} to ${entityName}`,
+    });
+    return field ?? {};
+  }
+
+  async updateField(entityName: string, fieldKey: string, input: FysoFieldInput): Promise<IDataObject> {
+    const field = await this.request<IDataObject>('PATCH', this.fieldsPath(entityName, fieldKey), {
+      body: { ...input },
+      errorMessage: `Failed to update field ${fieldKey} on ${entityName}`,
+    });
+    return field ?? {};
+  }
+
+  async removeField(entityName: string, fieldKey: string): Promise<void> {
+    await this.request('DELETE', this.fieldsPath(entityName, fieldKey), {
+      errorMessage: `Failed to remove field ${fieldKey} from ${entityName}`,
+    });
+  }
+
+  // ── Records ────────────────────────────────────────────────────────────────
+
+  private recordsPath(entityName: string, recordId?: string): string {
+    const base = `/api/entities/${encodeURIComponent(entityName)}/records`;
+    return recordId === undefined ? base : `${base}/${encodeURIComponent(recordId)}`;
+  }
+
+  /**
+   * Serialises a list query into the records endpoint's parameters:
+   * `filter[field][op]=value`, `sort=field` (or `-field` descending) and `fields=a,b`.
+   */
+  private listParams(query: FysoListQuery): FysoQuery {
+    const qs: FysoQuery = {
+      limit: query.limit,
+      offset: query.offset,
+      sort: query.sort && (query.sortDirection === 'desc' ? `-${query.sort}` : query.sort),
+      fields: query.fields?.length ? query.fields.join(',') : undefined,
+    };
+    for (const { field, operator, value } of query.filters ?? []) {
+      const unary = operator === 'isNull' || operator === 'notNull';
+      qs[`filter[${field}][${operator}]`] = unary ? true : value ?? '';
+    }
+    return qs;
+  }
+
+  async listRecords(entityName: string, query: FysoListQuery = {}): Promise<IDataObject[]> {
+    const records = await this.request<IDataObject[]>('GET', this.recordsPath(entityName), {
+      qs: this.listParams(query),
+      errorMessage: 'Failed to list records',
+    });
+    return Array.isArray(records) ? records : [];
+  }
+
+  /**
+   * Pages through `listRecords` until a short page signals the end or `maxRecords` have been
+   * yielded. `query.offset` is the starting point; `query.limit` is ignored in favour of
+   * `pageSize`, and the last page only asks for the records still missing.
+   */
+  async *paginateRecords(
+    entityName: string,
+    query: FysoListQuery = {},
+    pageSize = 100,
+    maxRecords = Infinity,
+  ): AsyncGenerator<IDataObject[], void, undefined> {
+    let offset = query.offset ?? 0;
+    let remaining = maxRecords;
+    while (remaining > 0) {
+      const limit = Math.min(pageSize, remaining);
+      const page = await this.listRecords(entityName, { ...query, limit, offset });
+      if (page.length > 0) yield page.slice(0, limit);
+      if (page.length < limit) return;
+      offset += page.length;
+      remaining -= page.length;
+    }
+  }
+
+  /**
+   * Full-text search through `GET /records/search`, best matches first. Servers without the
+   * endpoint are searched by paging through the entity and ranking records here.
+   */
+  async searchRecords(entityName: string, query: string, options: FysoSearchOptions = {}): Promise<IDataObject[]> {
+    const { fields, limit } = options;
+    if (!this.searchUnsupported) {
+      try {
+        const records = await this.request<IDataObject[]>('GET', `${this.recordsPath(entityName)}/search`, {
+          qs: { q: query, fields: fields?.length ? fields.join(',') : undefined, limit },
+          errorMessage: `Failed to search ${entityName} records`,
+        });
+        return Array.isArray(records) ? records : [];
+      } catch (error) {
+        const httpCode = error instanceof NodeApiError ? error.httpCode : null;
+        if (httpCode !== '404' && httpCode !== '405') throw error;
+        this.searchUnsupported = true;
+      }
+    }
+
+    const normalized = query.trim().toLowerCase();
+    const terms = normalized.split(/\s+/).filter(Boolean);
+    const matches: Array<{ record: IDataObject; score: number }> = [];
+    for await (const page of this.paginateRecords(entityName)) {
+      for (const record of page) {
+        const score = searchScore(record, terms, normalized, fields);
+        if (score > 0) matches.push({ record, score });
+      }
+    }
+    // Array.prototype.sort is stable, so equally ranked records keep the entity's order.
+    matches.sort((a, b) => b.score - a.score);
+    return matches.slice(0, limit ?? matches.length).map(({ record }) => record);
+  }
+
+  /**
+   * Computes count, sum, avg, min and max through `GET /records/aggregate`, one result per
+   * group. Servers without the endpoint are aggregated here while paging through the records.
+   */
+  async aggregateRecords(entityName: string, query: FysoAggregateQuery): Promise<IDataObject[]> {
+    const { functions, field, groupBy, filters } = query;
+    if (!this.aggregateUnsupported) {
+      try {
+        const results = await this.request<IDataObject[]>('GET', `${this.recordsPath(entityName)}/aggregate`, {
+          qs: { ...this.listParams({ filters }), functions: functions.join(','), field, groupBy },
+          errorMessage: `Failed to aggregate ${entityName} records`,
+        });
+        return Array.isArray(results) ? results : [];
+      } catch (error) {
+        const httpCode = error instanceof NodeApiError ? error.httpCode : null;
+        if (httpCode !== '404' && httpCode !== '405') throw error;
+        this.aggregateUnsupported = true;
+      }
+    }
+
+    const groups = new Map<string, AggregateGroup>();
+    const fields = [field, groupBy].filter((f): f is string => Boolean(f));
+    for await (const page of this.paginateRecords(entityName, { filters, fields: ['id', ...fields] })) {
+      for (const record of page) {
+        const key = groupBy ? JSON.stringify(record[groupBy] ?? null) : '';
+        let group = groups.get(key);
+        if (!group) {
+          group = { group: groupBy ? record[groupBy] ?? null : undefined, count: 0, sum: 0, numbers: 0 };
+          groups.set(key, group);
+        }
+        accumulate(group, field ? record[field] : undefined);
+      }
+    }
+    if (!groupBy && groups.size === 0) groups.set('', { group: undefined, count: 0, sum: 0, numbers: 0 });
+
+    return [...groups.values()].map((group) => {
+      const result: IDataObject = groupBy ? { [groupBy]: group.group as IDataObject } : {};
+      for (const fn of functions) {
+        if (fn === 'count') result.count = group.count;
+        if (fn === 'sum') result.sum = group.sum;
+        if (fn === 'avg') result.avg = group.numbers ? group.sum / group.numbers : null;
+        if (fn === 'min') result.min = group.min ?? null;
+        if (fn === 'max') result.max = group.max ?? null;
+      }
+      return result;
+    });
+  }
+
+  async getRecord(entityName: string, recordId: string): Promise<IDataObject> {
+    const record = await this.request<IDataObject>('GET', this.recordsPath(entityName, recordId), {
+      errorMessage: `Record ${recordId} not found`,
+    });
+    return record ?? {};
+  }
+
+  async createRecord(entityName: string, body: IDataObject): Promise<IDataObject> {
+    const record = await this.request<IDataObject>('POST', this.recordsPath(entityName), {
+      body,
+      errorMessage: 'Failed to create record',
+    });
+    return record ?? {};
+  }
+
+  /**
+   * Replaces a record, or patches the given fields when `options.partial` is set. With
+   * `options.expected` the current record is checked first, and the ETag it was read with is
+   * sent as `If-Match`, so servers that support it also reject changes that land in between.
+   */
+  async updateRecord(
+    entityName: string,
+    recordId: string,
+    body: IDataObject,
+    options: FysoUpdateOptions = {},
+  ): Promise<IDataObject> {
+    const { expected } = options;
+    const conflict = (actual?: unknown) =>
+      new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+        message: `Record ${recordId} was changed since it was read`,
+        description:
+          actual === undefined
+            ? `Fyso rejected the update because ${expected?.field} is no longer ${expected?.value}`
+            : `Expected ${expected?.field} ${expected?.value}, found ${String(actual)}`,
+        httpCode: '409',
+      });
+
+    let etag: string | null = null;
+    if (expected) {
+      const errorMessage = `Record ${recordId} not found`;
+      const res = await this.fetchResponse('GET', this.recordsPath(entityName, recordId), { errorMessage });
+      etag = res.headers.get('etag');
+      const current = (await unwrap<IDataObject>(this.ctx, res, errorMessage)) ?? {};
+      if (!sameVersion(current[expected.field], expected.value)) throw conflict(current[expected.field]);
+    }
+
+    try {
+      const record = await this.request<IDataObject>(
+        options.partial ? 'PATCH' : 'PUT',
+        this.recordsPath(entityName, recordId),
+        {
+          body,
+          headers: etag ? { 'If-Match': etag } : undefined,
+          errorMessage: `Failed to update record ${recordId}`,
+        },
+      );
+      return record ?? {};
+    } catch (error) {
+      const httpCode = error instanceof NodeApiError ? error.httpCode : null;
+      if (expected && (httpCode === '409' || httpCode === '412')) throw conflict();
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up a record whose `matchColumns` equal the values in `body`, then updates it
+   * or creates a new one. More than one match is an error rather than a guess.
+   */
+  async upsertRecord(
+    entityName: string,
+    body: IDataObject,
+    matchColumns: string[],
+  ): Promise<{ action: 'created' | 'updated'; record: IDataObject }> {
+    const filters: FysoFilter[] = matchColumns.map((field) => {
+      const value = body[field];
+      if (value === undefined || value === null || value === '') {
+        throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+          message: `Cannot match on "${field}": the field has no value`,
+        });
+      }
+      return { field, operator: 'eq', value: String(value) };
+    });
+
+    const matches = await this.listRecords(entityName, { filters, limit: 2 });
+    if (matches.length > 1) {
+      throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+        message: `More than one ${entityName} record matches ${matchColumns.join(', ')}`,
+        description: 'Choose columns that identify a single record, e.g. an email or external ID',
+      });
+    }
+    if (matches.length === 0) {
+      return { action: 'created', record: await this.createRecord(entityName, body) };
+    }
+
+    const recordId = matches[0].id;
+    if (recordId === undefined || recordId === null) {
+      throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+        message: `The matching ${entityName} record has no ID`,
+      });
+    }
+    return { action: 'updated', record: await this.updateRecord(entityName, String(recordId), body) };
+  }
+
+  /**
+   * Moves a record to the trash with `permanent: false`, or removes it for good with `true`. A soft
+   * delete fails unless Fyso answers with the trashed record. Without `permanent`, Fyso's default applies.
+   */
+  async deleteRecord(
+    entityName: string,
+    recordId: string,
+    options: { permanent?: boolean } = {},
+  ): Promise<IDataObject | undefined> {
+    // An expression that evaluates to nothing must never reach the collection URL.
+    if (!recordId.trim()) {
+      throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, { message: 'Cannot delete a record without an ID' });
+    }
+    const { permanent } = options;
+    const record = await this.request<IDataObject>('DELETE', this.recordsPath(entityName, recordId), {
+      qs: { permanent },
+      errorMessage: `Failed to delete record ${recordId}`,
+    });
+    if (permanent === false && !confirmsTrash(record)) {
+      throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+        message: `Failed to delete record ${recordId}: ${UNCONFIRMED_TRASH}`,
+        description: 'Check that this Fyso server supports soft delete before relying on Restore Record',
+      });
+    }
+    return record;
+  }
+
+  /** Brings a soft-deleted record back from the trash. */
+  async restoreRecord(entityName: string, recordId: string): Promise<IDataObject> {
+    const record = await this.request<IDataObject>('POST', `${this.recordsPath(entityName, recordId)}/restore`, {
+      errorMessage: `Failed to restore record ${recordId}`,
+    });
+    return record ?? {};
+  }
+
+  /**
+   * Deletes every record matching `filters`. When more than `limit` match, nothing is deleted.
+   * Returns one result per matched record, holding its state from before the deletion.
+   */
+  async deleteRecords(
+    entityName: string,
+    filters: FysoFilter[],
+    limit: number,
+    options: FysoBulkOptions = {},
+  ): Promise<FysoBulkResult[]> {
+    if (filters.length === 0) {
+      throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+        message: 'Add at least one filter to choose the records to delete',
+      });
+    }
+
+    const matches: IDataObject[] = [];
+    for await (const page of this.paginateRecords(entityName, { filters }, Math.min(limit + 1, 100))) {
+      matches.push(...page);
+      if (matches.length > limit) {
+        throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+          message: `More than ${limit} ${entityName} records match the filters; nothing was deleted`,
+          description: 'Narrow the filters, or raise the maximum if deleting this many records is intended',
+        });
+      }
+    }
+
+    if (matches.length === 0) return [];
+    const entries = matches.map((record) => ({ id: String(record.id) }));
+    const results = await this.bulkRecords(entityName, 'delete', entries, options);
+    return results.map((result, index) => ({ ...result, record: matches[index] }));
+  }
+
+  private filePath(entityName: string, recordId: string, fieldKey: string): string {
+    return `${this.recordsPath(entityName, recordId)}/files/${encodeURIComponent(fieldKey)}`;
+  }
+
+  /** Uploads a file into a record's file field and returns the updated record. */
+  async uploadFile(entityName: string, recordId: string, fieldKey: string, file: FysoFile): Promise<IDataObject> {
+    const record = await this.request<IDataObject>('POST', this.filePath(entityName, recordId, fieldKey), {
+      file,
+      errorMessage: `Failed to upload ${file.fileName} to record ${recordId}`,
+    });
+    return record ?? {};
+  }
+
+  /** Downloads the file stored in a record's file field. */
+  async downloadFile(entityName: string, recordId: string, fieldKey: string): Promise<FysoFile> {
+    const errorMessage = `Failed to download ${fieldKey} of record ${recordId}`;
+    const res = await this.fetchResponse('GET', this.filePath(entityName, recordId, fieldKey), { errorMessage });
+    // Errors come back in the usual JSON envelope; let it raise them.
+    if (!res.ok) await unwrap(this.ctx, res, errorMessage);
+    return {
+      data: Buffer.from(await res.arrayBuffer()),
+      fileName: dispositionFileName(res.headers.get('content-disposition')) ?? fieldKey,
+      mimeType: res.headers.get('content-type')?.split(';')[0].trim() || 'application/octet-stream',
+    };
+  }
+
+  /**
+   * Sends a batch through `POST /records/bulk` and returns one result per entry, in order.
+   * Servers without the bulk endpoint get single requests with at most `concurrency` in flight.
+   */
+  async bulkRecords(
+    entityName: string,
+    operation: FysoBulkOperation,
+    entries: FysoBulkEntry[],
+    { concurrency = 5, partial = false, permanent }: FysoBulkOptions = {},
+  ): Promise<FysoBulkResult[]> {
+    if (!this.bulkUnsupported) {
+      try {
+        const results = await this.request<Array<{ success: boolean; data?: IDataObject; error?: string }>>(
+          'POST',
+          `${this.recordsPath(entityName)}/bulk`,
+          {
+            body: {
+              operation,
+              partial: partial || undefined,
+              permanent: operation === 'delete' ? permanent : undefined,
+              records: entries as IDataObject[],
+            },
+            errorMessage: `Failed to ${operation} records in bulk`,
+          },
+        );
+        return entries.map((_, index) => {
+          const result = results?.[index];
+          if (!result) return { success: false, error: 'No result returned for this record' };
+          if (operation === 'delete' && permanent === false && result.success && !confirmsTrash(result.data)) {
+            return { success: false, error: UNCONFIRMED_TRASH };
+          }
+          return { success: result.success, record: result.data, error: result.error };
+        });
+      } catch (error) {
+        const httpCode = error instanceof NodeApiError ? error.httpCode : null;
+        if (httpCode !== '404' && httpCode !== '405') throw error;
+        this.bulkUnsupported = true;
+      }
+    }
+
+    return await mapConcurrent(entries, concurrency, async ({ id, data }): Promise<FysoBulkResult> => {
+      try {
+        if (operation === 'create') return { success: true, record: await this.createRecord(entityName, data ?? {}) };
+        if (operation === 'update') {
+          return { success: true, record: await this.updateRecord(entityName, id ?? '', data ?? {}, { partial }) };
+        }
+        await this.deleteRecord(entityName, id ?? '', { permanent });
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: (error as Error).message };
+      }
+    });
+  }
+
+  // ── Relations ──────────────────────────────────────────────────────────────
+
+  private async relationFields(entityName: string): Promise<FysoField[]> {
+    const fields = await this.getEntityFields(entityName);
+    return fields.filter((f) => f.fieldType === 'relation' && f.config?.relatedEntity);
+  }
+
+  /**
+   * Replaces relation IDs with the related records, recursing `depth` levels deep.
+   * IDs that no longer resolve to a record are left as they are.
+   */
+  async expandRelations(entityName: string, records: IDataObject[], depth: number): Promise<IDataObject[]> {
+    if (depth < 1 || records.length === 0) return records;
+    const expanded = records.map((record) => ({ ...record }));
+
+    for (const field of await this.relationFields(entityName)) {
+      const relatedEntity = field.config?.relatedEntity as string;
+      const ids = [...new Set(records.flatMap((record) => relationIds(record[field.fieldKey])))];
+      if (ids.length === 0) continue;
+
+      const related = new Map<string, IDataObject>();
+      for (let start = 0; start < ids.length; start += RELATION_PAGE_SIZE) {
+        const chunk = ids.slice(start, start + RELATION_PAGE_SIZE);
+        const page = await this.listRecords(relatedEntity, {
+          filters: [{ field: 'id', operator: 'in', value: chunk.join(',') }],
+          limit: chunk.length,
+        });
+        for (const record of await this.expandRelations(relatedEntity, page, depth - 1)) {
+          related.set(String(record.id), record);
+        }
+      }
+
+      const resolve = (value: unknown) => related.get(String(value)) ?? value;
+      for (const record of expanded) {
+        const value = record[field.fieldKey];
+        if (Array.isArray(value)) {
+          record[field.fieldKey] = value.map(resolve) as IDataObject[];
+        } else if (relationIds(value).length) {
+          record[field.fieldKey] = resolve(value) as IDataObject;
+        }
+      }
+    }
+    return expanded;
+  }
+
+  /**
+   * Resolves relation values written as `field=value`, e.g. `email=jane@example.com`, to the ID
+   * of the one related record whose field equals that value. Other values are sent as IDs.
+   */
+  async resolveRelations(entityName: string, body: IDataObject): Promise<IDataObject> {
+    const isLookup = (value: unknown) => typeof value === 'string' && RELATION_LOOKUP.test(value);
+    if (!Object.values(body).some(isLookup)) return body;
+
+    const resolved = { ...body };
+    for (const field of await this.relationFields(entityName)) {
+      const value = body[field.fieldKey];
+      if (!isLookup(value)) continue;
+      const [, lookupField, lookupValue] = RELATION_LOOKUP.exec(value as string) as RegExpExecArray;
+      const relatedEntity = field.config?.relatedEntity as string;
+
+      const matches = await this.listRecords(relatedEntity, {
+        filters: [{ field: lookupField, operator: 'eq', value: lookupValue }],
+        limit: 2,
+      });
+      if (matches.length !== 1) {
+        throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+          message: `${matches.length ? 'More than one' : 'No'} ${relatedEntity} record has ${lookupField} "${lookupValue}"`,
+          description: `"${field.name}" needs a lookup that identifies exactly one ${relatedEntity} record`,
+        });
+      }
+      resolved[field.fieldKey] = matches[0].id as string;
+    }
+    return resolved;
+  }
+
+  // ── Webhook subscriptions ──────────────────────────────────────────────────
+
+  async listSubscriptions(entityName?: string): Promise<FysoSubscription[]> {
+    const subscriptions = await this.request<FysoSubscription[]>('GET', '/api/webhooks/subscriptions', {
+      qs: { entityName },
+      errorMessage: 'Failed to list webhook subscriptions',
+    });
+    return subscriptions ?? [];
+  }
+
+  async createSubscription(input: FysoSubscriptionInput): Promise<FysoSubscription> {
+    const subscription = await this.request<FysoSubscription>('POST', '/api/webhooks/subscriptions', {
+      body: { ...input },
+      errorMessage: 'Failed to create webhook subscription',
+    });
+    if (!subscription?.id) {
+      throw new NodeApiError(this.ctx.getNode(), {} as JsonObject, {
+        message: 'Failed to create webhook subscription: Fyso returned no subscription ID',
+      });
+    }
+    return subscription;
+  }
+
+  async updateSubscription(subscriptionId: string, input: Partial<FysoSubscriptionInput>): Promise<FysoSubscription> {
+    const path = `/api/webhooks/subscriptions/${encodeURIComponent(subscriptionId)}`;
+    const subscription = await this.request<FysoSubscription>('PATCH', path, {
+      body: { ...input },
+      errorMessage: `Failed to update webhook subscription ${subscriptionId}`,
+    });
+    return subscription ?? { id: subscriptionId };
+  }
+
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    await this.request('DELETE', `/api/webhooks/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+      errorMessage: `Failed to delete webhook subscription ${subscriptionId}`,
+    });
+  }
+}
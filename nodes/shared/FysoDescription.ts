@@ -0,0 +1,77 @@
+import type {
+  IDisplayOptions,
+  ILoadOptionsFunctions,
+  INodeCredentialDescription,
+  INodeListSearchResult,
+  INodeProperties,
+} from 'n8n-workflow';
+
+import { FysoClient, getTenantParameter } from './FysoClient';
+
+// ─── Properties shared by the Fyso nodes ──────────────────────────────────────
+
+export const fysoCredentials: INodeCredentialDescription[] = [
+  { name: 'fysoApi', required: true, displayOptions: { show: { authentication: ['password'] } } },
+  { name: 'fysoTokenApi', required: true, displayOptions: { show: { authentication: ['apiKey'] } } },
+];
+
+export const authenticationProperty: INodeProperties = {
+  displayName: 'Authentication',
+  name: 'authentication',
+  type: 'options',
+  noDataExpression: true,
+  options: [
+    { name: 'Email & Password', value: 'password' },
+    { name: 'API Key', value: 'apiKey' },
+  ],
+  default: 'password',
+  description: 'How to authenticate against Fyso. API keys are tenant-scoped and do not depend on a user account.',
+};
+
+/** The Tenant locator, with the node's own description and any further conditions to hide it on. */
+export function tenantProperty(description: string, hide: NonNullable<IDisplayOptions['hide']> = {}): INodeProperties {
+  return {
+    displayName: 'Tenant',
+    name: 'tenantId',
+    type: 'resourceLocator',
+    default: { mode: 'list', value: '' },
+    required: true,
+    // API keys are scoped to their own tenant, so picking another one would be ignored.
+    displayOptions: { hide: { ...hide, authentication: ['apiKey'] } },
+    description,
+    hint: 'Each tenant is an isolated workspace with its own entities and records',
+    modes: [
+      {
+        displayName: 'List',
+        name: 'list',
+        type: 'list',
+        placeholder: 'Select a tenant...',
+        typeOptions: { searchListMethod: 'getTenants', searchable: true },
+      },
+      {
+        displayName: 'ID',
+        name: 'id',
+        type: 'string',
+        placeholder: 'e.g. 550e8400-e29b-41d4-a716-446655440000',
+        validation: [{ type: 'regex', properties: { regex: '.+', errorMessage: 'Enter a valid tenant ID' } }],
+      },
+    ],
+  };
+}
+
+// ─── List search ──────────────────────────────────────────────────────────────
+
+/** Backs the Tenant and Entity locators' list modes. */
+export const listSearch = {
+  async getTenants(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
+    const tenants = await new FysoClient(this).listTenants();
+    return { results: tenants.map((t) => ({ name: `${t.name} (${t.slug})`, value: t.id })) };
+  },
+
+  async getEntities(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
+    const client = new FysoClient(this, getTenantParameter(this));
+    if (!client.hasTenant()) return { results: [] };
+    const entities = await client.listEntities();
+    return { results: entities.map((e) => ({ name: e.displayName ?? e.name, value: e.name })) };
+  },
+};
@@ -0,0 +1,417 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+
+import type { IDataObject, ILoadOptionsFunctions, INodeExecutionData } from 'n8n-workflow';
+import { extractFromAICalls } from 'n8n-workflow';
+
+import { Fyso } from '../nodes/Fyso/Fyso.node';
+import type { MockContextOptions, MockHandler, MockServer } from './helpers';
+import { mockContext, sendData, sendJson, startMockServer } from './helpers';
+
+describe('Fyso', () => {
+  let server: MockServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function executeItems(handler: MockHandler, options: MockContextOptions): Promise<INodeExecutionData[]> {
+    server = await startMockServer(handler);
+    const parameters = { tenantId: { value: 't1' }, entityName: { value: 'patients' }, ...options.parameters };
+    const [items] = await new Fyso().execute.call(mockContext(server.url, { ...options, parameters }));
+    return items;
+  }
+
+  async function execute(handler: MockHandler, options: MockContextOptions): Promise<IDataObject[]> {
+    return (await executeItems(handler, options)).map((item) => item.json);
+  }
+
+  describe('API key authentication', () => {
+    it('works without the hidden Tenant parameter', async () => {
+      const items = await execute((req, res) => sendData(res, { id: '7' }), {
+        authentication: 'apiKey',
+        parameters: { tenantId: undefined, operation: 'get', recordId: '7' },
+      });
+
+      assert.deepEqual(items, [{ id: '7' }]);
+      assert.equal(server?.logins, 0);
+      assert.equal(server?.requests[0].headers.authorization, 'Bearer api-key');
+    });
+
+    it('refuses tenant operations that need a picked tenant', async () => {
+      await assert.rejects(
+        execute((req, res) => sendData(res, {}), {
+          authentication: 'apiKey',
+          parameters: { tenantId: undefined, resource: 'tenant', operation: 'selectTenant' },
+        }),
+        /Get Tenant and Select Tenant need Email & Password authentication/,
+      );
+      assert.deepEqual(server?.requests, []);
+    });
+  });
+
+  describe('validate only', () => {
+    const schema: MockHandler = (req, res) =>
+      sendData(res, {
+        name: 'patients',
+        fields: [
+          { fieldKey: 'name', name: 'Name', fieldType: 'text', isRequired: true },
+          { fieldKey: 'age', name: 'Age', fieldType: 'number' },
+          { fieldKey: 'status', name: 'Status', fieldType: 'select', config: { options: ['open', 'closed'] } },
+        ],
+      });
+    const validate = async (operation: string, fieldsJson: IDataObject, parameters: IDataObject = {}) =>
+      await execute(schema, {
+        parameters: { operation, dataMode: 'json', fieldsJson, options: { validateOnly: true }, ...parameters },
+      });
+
+    it('lists unknown, missing, type and option errors together, without writing', async () => {
+      const fieldsJson = { nmae: 'Ana', age: 'old', status: 'archived' };
+
+      assert.deepEqual(await validate('create', fieldsJson), [
+        {
+          valid: false,
+          errors: [
+            { field: 'nmae', message: 'The entity has no such field' },
+            { field: 'name', message: 'The field is required' },
+            { field: 'age', message: 'Field "Age" expects a number, got "old"' },
+            { field: 'status', message: 'Field "Status" expects one of open, closed, got "archived"' },
+          ],
+          data: fieldsJson,
+        },
+      ]);
+      assert.deepEqual(
+        server?.requests.map((req) => req.method),
+        ['GET'],
+      );
+    });
+
+    it('outputs the values as they would be sent when they are valid', async () => {
+      assert.deepEqual(await validate('create', { name: 'Ana', age: '31', status: 'open' }), [
+        { valid: true, errors: [], data: { name: 'Ana', age: 31, status: 'open' } },
+      ]);
+    });
+
+    it('does not require every field for a partial update', async () => {
+      assert.deepEqual(await validate('update', { age: 32 }, { recordId: '7', updateMode: 'patch' }), [
+        { id: '7', valid: true, errors: [], data: { age: 32 } },
+      ]);
+    });
+  });
+
+  describe('record form', () => {
+    it('offers the options of selects as choices, and names those of multi-selects in the label', async () => {
+      server = await startMockServer((req, res) =>
+        sendData(res, {
+          name: 'patients',
+          fields: [
+            { fieldKey: 'status', name: 'Status', fieldType: 'select', config: { options: ['open', 'closed'] } },
+            {
+              fieldKey: 'tags',
+              name: 'Tags',
+              fieldType: 'multiselect',
+              config: { options: [{ value: 'vip', label: 'VIP' }, 'new'] },
+            },
+            { fieldKey: 'doctor', name: 'Doctor', fieldType: 'relation', config: { relatedEntity: 'doctors' } },
+          ],
+        }),
+      );
+      const context = mockContext(server.url, {
+        parameters: { tenantId: { value: 't1' }, entityName: { value: 'patients' }, operation: 'create' },
+      }) as unknown as ILoadOptionsFunctions;
+
+      const { fields } = await new Fyso().methods.resourceMapping.getEntityFields.call(context);
+      assert.deepEqual(
+        fields.map(({ id, displayName, type, options }) => ({ id, displayName, type, options })),
+        [
+          {
+            id: 'status',
+            displayName: 'Status',
+            type: 'options',
+            options: [
+              { name: 'open', value: 'open' },
+              { name: 'closed', value: 'closed' },
+            ],
+          },
+          { id: 'tags', displayName: 'Tags (any of vip, new)', type: 'array', options: undefined },
+          { id: 'doctor', displayName: 'Doctor (ID or field=value)', type: 'string', options: undefined },
+        ],
+      );
+    });
+  });
+
+  describe('tool mode', () => {
+    const clinicHandler: MockHandler = (req, res) => {
+      if (req.url === '/api/auth/tenants') return sendData(res, [{ id: 't1', name: 'Clinic', slug: 'clinic' }]);
+      if (req.url === '/api/metadata/entities') return sendData(res, [{ name: 'patients', displayName: 'Patients' }]);
+      if (req.url.startsWith('/api/metadata/entities/')) {
+        return sendData(res, {
+          name: 'patients',
+          fields: [
+            { fieldKey: 'name', name: 'Name', fieldType: 'text', isRequired: true },
+            { fieldKey: 'age', name: 'Age', fieldType: 'number' },
+            { fieldKey: 'status', name: "Patient's status", fieldType: 'select', config: { options: ['open', 'closed'] } },
+            { fieldKey: 'doctor', name: 'Doctor', fieldType: 'relation', config: { relatedEntity: 'doctors' } },
+          ],
+        });
+      }
+      if (req.method === 'POST') return sendData(res, { id: '1', ...JSON.parse(req.body) });
+    };
+
+    it('pre-fills the record form with one $fromAI() per field, described from its metadata', async () => {
+      server = await startMockServer(clinicHandler);
+      const context = mockContext(server.url, {
+        parameters: { tenantId: { value: 't1' }, entityName: { value: 'patients' }, operation: 'create' },
+        nodeType: 'n8n-nodes-fyso.fysoTool',
+      }) as unknown as ILoadOptionsFunctions;
+
+      const { fields } = await new Fyso().methods.resourceMapping.getEntityFields.call(context);
+      assert.deepEqual(
+        fields.flatMap((field) => extractFromAICalls(String(field.defaultValue))),
+        [
+          { key: 'name', description: 'Name (text, required)', type: 'string', defaultValue: undefined },
+          { key: 'age', description: 'Age (number). Leave empty to not set it.', type: 'string', defaultValue: '' },
+          {
+            key: 'status',
+            description: "Patient's status (select: open | closed). Leave empty to not set it.",
+            type: 'string',
+            defaultValue: '',
+          },
+          {
+            key: 'doctor',
+            description: "Doctor (relation): the related record's ID, or field=value to look it up. Leave empty to not set it.",
+            type: 'string',
+            defaultValue: '',
+          },
+        ],
+      );
+    });
+
+    it('leaves the form empty outside tool mode', async () => {
+      server = await startMockServer(clinicHandler);
+      const context = mockContext(server.url, {
+        parameters: { tenantId: { value: 't1' }, entityName: { value: 'patients' }, operation: 'create' },
+      }) as unknown as ILoadOptionsFunctions;
+
+      const { fields } = await new Fyso().methods.resourceMapping.getEntityFields.call(context);
+      assert.deepEqual(
+        fields.map((field) => field.defaultValue),
+        fields.map(() => undefined),
+      );
+    });
+
+    it('resolves the tenant and entity once per execution, and does not send fields the agent left empty', async () => {
+      const items = await execute(clinicHandler, {
+        items: [{}, {}],
+        nodeType: 'n8n-nodes-fyso.fysoTool',
+        parameters: {
+          operation: 'create',
+          tenantId: { value: 'clinic' },
+          entityName: { value: 'Patients' },
+          fields: (i: number) => ({ value: { name: ['Ana', 'Bea'][i], age: '', status: i ? 'open' : '' } }),
+        },
+      });
+
+      assert.deepEqual(items, [
+        { id: '1', name: 'Ana' },
+        { id: '1', name: 'Bea', status: 'open' },
+      ]);
+      const listed = (url: string) => server?.requests.filter((req) => req.url === url).length;
+      assert.equal(listed('/api/auth/tenants'), 1);
+      assert.equal(listed('/api/metadata/entities'), 1);
+    });
+  });
+
+  describe('deletes', () => {
+    // Answers reads with the record, and deletes with `{ success: true }` and no data.
+    const deleteHandler: MockHandler = (req, res) => {
+      if (req.method === 'GET') return sendData(res, { id: '1', name: 'Ana' });
+      if (req.method === 'DELETE') return sendJson(res, 200, { success: true });
+    };
+    const deletes = () => server?.requests.filter((req) => req.method === 'DELETE').map((req) => req.url);
+
+    it('keeps sending a plain DELETE from version 1 nodes saved without a Delete Mode', async () => {
+      const items = await execute(deleteHandler, { typeVersion: 1, parameters: { operation: 'delete', recordId: '1' } });
+
+      assert.deepEqual(deletes(), ['/api/entities/patients/records/1']);
+      assert.deepEqual(items, [{ success: true, id: '1', permanent: undefined, record: { id: '1', name: 'Ana' } }]);
+    });
+
+    it('soft deletes by default from newer nodes, failing when Fyso does not confirm the trash', async () => {
+      await assert.rejects(
+        execute(deleteHandler, { parameters: { operation: 'delete', recordId: '1' } }),
+        /may have been deleted permanently/,
+      );
+      assert.deepEqual(deletes(), ['/api/entities/patients/records/1?permanent=false']);
+    });
+  });
+
+  describe('batches', () => {
+    // Entities without fields, and bulk results that fail entries named `reject`.
+    const bulkHandler: MockHandler = (req, res) => {
+      if (req.url.startsWith('/api/metadata/entities/')) return sendData(res, { name: 'patients', fields: [] });
+      if (req.url.endsWith('/records/bulk')) {
+        const { records } = JSON.parse(req.body) as { records: Array<{ id?: string; data?: IDataObject }> };
+        return sendData(
+          res,
+          records.map(({ id, data }) =>
+            data?.name === 'reject' ? { success: false, error: 'Name is taken' } : { success: true, data: { id, ...data } },
+          ),
+        );
+      }
+    };
+    const bulkRequests = () => server?.requests.filter((req) => req.url.endsWith('/records/bulk')) ?? [];
+    // A `null` name stands for an item whose Fields (JSON) is not JSON.
+    const createItems = (names: Array<string | null>, parameters: IDataObject = {}): MockContextOptions => ({
+      items: names.map(() => ({})),
+      parameters: {
+        operation: 'create',
+        dataMode: 'json',
+        fieldsJson: (i: number) => (names[i] === null ? 'not json' : { name: names[i] }),
+        options: { batchSize: 10 },
+        ...parameters,
+      },
+    });
+
+    it('groups consecutive items of the same tenant and entity, up to Batch Size', async () => {
+      const targets = [['t1', 'patients'], ['t1', 'patients'], ['t1', 'patients'], ['t1', 'orders'], ['t2', 'orders']];
+      const items = await executeItems(
+        bulkHandler,
+        createItems(['Ana', 'Bea', 'Cid', 'Dan', 'Eva'], {
+          tenantId: (i: number) => ({ value: targets[i][0] }),
+          entityName: (i: number) => ({ value: targets[i][1] }),
+          options: { batchSize: 2 },
+        }),
+      );
+
+      assert.deepEqual(
+        bulkRequests().map((req) => [req.url, JSON.parse(req.body).records.length]),
+        [
+          ['/api/entities/patients/records/bulk', 2],
+          ['/api/entities/patients/records/bulk', 1],
+          ['/api/entities/orders/records/bulk', 1],
+          ['/api/entities/orders/records/bulk', 1],
+        ],
+      );
+      const [, , , t1, t2] = bulkRequests().map((req) => req.headers.authorization);
+      assert.notEqual(t1, t2);
+      assert.deepEqual(
+        items.map((item) => [item.json.name, item.pairedItem]),
+        [['Ana', 0], ['Bea', 1], ['Cid', 2], ['Dan', 3], ['Eva', 4]],
+      );
+    });
+
+    it('fails only the items that could not be prepared or that Fyso rejected', async () => {
+      const items = await executeItems(bulkHandler, {
+        ...createItems(['Ana', null, 'reject', 'Bea']),
+        continueOnFail: true,
+      });
+
+      assert.deepEqual(JSON.parse(bulkRequests()[0].body).records, [
+        { data: { name: 'Ana' } },
+        { data: { name: 'reject' } },
+        { data: { name: 'Bea' } },
+      ]);
+      assert.deepEqual(
+        items.map((item) => [item.json.name ?? item.json.error, item.pairedItem]),
+        [
+          ['Ana', 0],
+          ['Fields (JSON) must be a JSON object of field names and values', 1],
+          ['Name is taken', 2],
+          ['Bea', 3],
+        ],
+      );
+    });
+
+    it('stops on a rejected item without continue on fail', async () => {
+      await assert.rejects(executeItems(bulkHandler, createItems(['Ana', 'reject'])), /Name is taken/);
+    });
+
+    it('reads the records to delete first and outputs their last state', async () => {
+      const records = [{ id: '1', name: 'Ana' }, { id: '2', name: 'Bea' }];
+      const items = await execute(
+        (req, res) => {
+          if (req.method === 'GET') return sendData(res, records);
+          return bulkHandler(req, res);
+        },
+        {
+          items: [{}, {}],
+          parameters: {
+            operation: 'delete',
+            recordId: (i: number) => records[i].id,
+            deleteMode: 'permanent',
+            options: { batchSize: 10 },
+          },
+        },
+      );
+
+      assert.deepEqual(
+        server?.requests.map((req) => `${req.method} ${decodeURIComponent(req.url)}`),
+        ['GET /api/entities/patients/records?limit=2&filter[id][in]=1,2', 'POST /api/entities/patients/records/bulk'],
+      );
+      assert.deepEqual(items, [
+        { success: true, id: '1', permanent: true, record: records[0] },
+        { success: true, id: '2', permanent: true, record: records[1] },
+      ]);
+    });
+
+    it('sends updates one by one when Expected Version is set on the node, even if item 0 has none', async () => {
+      const versions = [undefined, '2026-01-01T00:00:00Z'];
+      const items = await execute(
+        (req, res) => {
+          if (req.method === 'GET' && req.url.includes('/records/')) {
+            return sendJson(res, 200, { success: true, data: { id: '2', updatedAt: versions[1] } }, { ETag: '"v2"' });
+          }
+          if (req.method === 'PUT') return sendData(res, { id: req.url.split('/').pop(), ...JSON.parse(req.body) });
+          return bulkHandler(req, res);
+        },
+        {
+          ...createItems(['Ana', 'Bea'], {
+            operation: 'update',
+            recordId: (i: number) => String(i + 1),
+            options: (i: number) => ({ batchSize: 10, expectedVersion: versions[i] }),
+          }),
+          nodeParameters: { options: { batchSize: 10, expectedVersion: '={{ $json.updatedAt }}' } },
+        },
+      );
+
+      assert.deepEqual(bulkRequests(), []);
+      assert.deepEqual(
+        server?.requests
+          .filter((req) => req.url.includes('/records/'))
+          .map((req) => [req.method, req.url, req.headers['if-match']]),
+        [
+          ['PUT', '/api/entities/patients/records/1', undefined],
+          ['GET', '/api/entities/patients/records/2', undefined],
+          ['PUT', '/api/entities/patients/records/2', '"v2"'],
+        ],
+      );
+      assert.deepEqual(items, [
+        { id: '1', name: 'Ana' },
+        { id: '2', name: 'Bea' },
+      ]);
+    });
+
+    it('runs items one by one in tool mode, resolving the target and returning errors as answers', async () => {
+      const items = await execute(
+        (req, res) => {
+          if (req.url === '/api/auth/tenants') return sendData(res, [{ id: 't1', name: 'Clinic', slug: 'clinic' }]);
+          if (req.url === '/api/metadata/entities') return sendData(res, [{ name: 'patients', displayName: 'Patients' }]);
+          if (req.method === 'POST') return sendData(res, { id: '1', ...JSON.parse(req.body) });
+          return bulkHandler(req, res);
+        },
+        {
+          ...createItems(['Ana', null], { tenantId: { value: 'clinic' }, entityName: { value: 'Patients' } }),
+          nodeType: 'n8n-nodes-fyso.fysoTool',
+        },
+      );
+
+      assert.deepEqual(bulkRequests(), []);
+      assert.deepEqual(items, [
+        { id: '1', name: 'Ana' },
+        { error: 'Fields (JSON) must be a JSON object of field names and values', hint: 'For example {"name": "Ana", "age": 31}' },
+      ]);
+    });
+  });
+});
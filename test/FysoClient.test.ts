@@ -0,0 +1,505 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+
+import type { IDataObject } from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+
+import { FysoClient } from '../nodes/shared/FysoClient';
+import type { MockHandler, MockServer } from './helpers';
+import { mockContext, sendData, sendJson, startMockServer } from './helpers';
+
+const NO_RETRY = { retry: { maxAttempts: 1 } };
+
+describe('FysoClient', () => {
+  let server: MockServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function client(handler: MockHandler, options = {}): Promise<FysoClient> {
+    server = await startMockServer(handler);
+    return new FysoClient(mockContext(server.url, options), 't1', NO_RETRY);
+  }
+
+  // Serves `records` page by page like the records endpoint, and a 404 for the `endpoint` sub-path.
+  const withoutEndpoint =
+    (endpoint: string, records: IDataObject[]): MockHandler =>
+    (req, res) => {
+      const { pathname, searchParams } = new URL(req.url, 'http://fyso');
+      if (pathname.endsWith(`/records/${endpoint}`)) return sendJson(res, 404, { success: false, error: 'Not found' });
+      const offset = Number(searchParams.get('offset') ?? 0);
+      sendData(res, records.slice(offset, offset + Number(searchParams.get('limit') ?? records.length)));
+    };
+  const paths = () => server?.requests.map((req) => new URL(req.url, 'http://fyso').pathname);
+
+  describe('responses', () => {
+    it('unwraps the data of a successful envelope', async () => {
+      const fyso = await client((req, res) => sendData(res, { id: '7', name: 'Ana' }));
+
+      assert.deepEqual(await fyso.getRecord('patients', '7'), { id: '7', name: 'Ana' });
+      assert.equal(server?.requests[0].url, '/api/entities/patients/records/7');
+    });
+
+    it('fails on an unsuccessful envelope with the error Fyso returned', async () => {
+      const fyso = await client((req, res) => sendJson(res, 200, { success: false, error: 'Entity is locked' }));
+
+      await assert.rejects(fyso.createRecord('patients', { name: 'Ana' }), (error: NodeApiError) => {
+        assert.ok(error instanceof NodeApiError);
+        assert.equal(error.message, 'Failed to create record: Entity is locked');
+        return true;
+      });
+    });
+
+    it('maps the HTTP status of a failed request to the error', async () => {
+      const fyso = await client((req, res) => sendJson(res, 404, { success: false, error: 'Not found' }));
+
+      await assert.rejects(fyso.getRecord('patients', '404'), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '404');
+        assert.equal(error.message, 'Record 404 not found: Not found');
+        return true;
+      });
+    });
+
+    it('falls back to the HTTP status when the error body has no message', async () => {
+      const fyso = await client((req, res) => sendJson(res, 500, {}));
+
+      await assert.rejects(fyso.listEntities(), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '500');
+        assert.equal(error.message, 'Failed to list entities: HTTP 500');
+        return true;
+      });
+    });
+
+    it('reports a body that is not JSON, keeping its start as the description', async () => {
+      const fyso = await client((req, res) => {
+        res.writeHead(502, { 'Content-Type': 'text/html' });
+        res.end('<html><body>Bad Gateway</body></html>');
+      });
+
+      await assert.rejects(fyso.listRecords('patients'), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '502');
+        assert.equal(error.message, 'Failed to list records: Fyso returned a non-JSON response');
+        assert.equal(error.description, '<html><body>Bad Gateway</body></html>');
+        return true;
+      });
+    });
+  });
+
+  describe('retries', () => {
+    const RETRY = { retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 2000 } };
+
+    async function retryingClient(handler: MockHandler): Promise<FysoClient> {
+      server = await startMockServer(handler);
+      return new FysoClient(mockContext(server.url), 't1', RETRY);
+    }
+
+    // Fails the first `failures` requests with `status`, then succeeds.
+    const flaky =
+      (failures: number, status: number, headers: Record<string, string> = {}): MockHandler =>
+      (req, res) => {
+        if ((server?.requests.length ?? 0) <= failures) {
+          return sendJson(res, status, { success: false, error: 'Try again' }, headers);
+        }
+        sendData(res, { id: '1' });
+      };
+
+    it('retries an idempotent request after a gateway error', async () => {
+      const fyso = await retryingClient(flaky(2, 502));
+
+      assert.deepEqual(await fyso.getRecord('patients', '1'), { id: '1' });
+      assert.equal(server?.requests.length, 3);
+    });
+
+    it('does not repeat a create after a gateway error, which may come after the write', async () => {
+      const fyso = await retryingClient(flaky(1, 502));
+
+      await assert.rejects(fyso.createRecord('patients', { name: 'Ana' }), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '502');
+        return true;
+      });
+      assert.equal(server?.requests.length, 1);
+    });
+
+    it('repeats a create that was rate limited', async () => {
+      const fyso = await retryingClient(flaky(1, 429, { 'Retry-After': '0' }));
+
+      assert.deepEqual(await fyso.createRecord('patients', { name: 'Ana' }), { id: '1' });
+      assert.equal(server?.requests.length, 2);
+    });
+
+    it('repeats a create refused with 503 and Retry-After, but not a bare 503', async () => {
+      let fyso = await retryingClient(flaky(1, 503, { 'Retry-After': '0' }));
+      assert.deepEqual(await fyso.createRecord('patients', {}), { id: '1' });
+      assert.equal(server?.requests.length, 2);
+      await server?.close();
+
+      fyso = await retryingClient(flaky(1, 503));
+      await assert.rejects(fyso.createRecord('patients', {}));
+      assert.equal(server?.requests.length, 1);
+    });
+
+    it('repeats a non-idempotent request sent with an Idempotency-Key', async () => {
+      const fyso = await retryingClient(flaky(1, 504));
+
+      await fyso.request('POST', '/api/entities/patients/records', {
+        body: { name: 'Ana' },
+        headers: { 'Idempotency-Key': 'import-42' },
+      });
+      assert.deepEqual(
+        server?.requests.map((req) => req.headers['idempotency-key']),
+        ['import-42', 'import-42'],
+      );
+    });
+
+    it('waits as long as Retry-After asks', async () => {
+      const fyso = await retryingClient(flaky(1, 429, { 'Retry-After': '1' }));
+
+      const started = Date.now();
+      await fyso.getRecord('patients', '1');
+      assert.ok(Date.now() - started >= 950, 'retried before Retry-After elapsed');
+    });
+
+    it('fails at once when Retry-After is longer than the maximum delay', async () => {
+      const fyso = await retryingClient(flaky(1, 429, { 'Retry-After': '120' }));
+
+      await assert.rejects(fyso.getRecord('patients', '1'), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '429');
+        assert.equal(error.description, 'Fyso is rate limiting requests and asked to retry after 120 seconds');
+        return true;
+      });
+      assert.equal(server?.requests.length, 1);
+    });
+  });
+
+  describe('records', () => {
+    // Serves `count` records, honouring the limit and offset parameters.
+    const recordsHandler =
+      (count: number): MockHandler =>
+      (req, res) => {
+        const qs = new URL(req.url, 'http://fyso').searchParams;
+        const offset = Number(qs.get('offset') ?? 0);
+        const limit = Number(qs.get('limit') ?? count);
+        const ids = Array.from({ length: count }, (_, i) => ({ id: String(i + 1) }));
+        sendData(res, ids.slice(offset, offset + limit));
+      };
+    const pageQueries = () =>
+      server?.requests.map((req) => new URL(req.url, 'http://fyso').search.replace('?', ''));
+
+    it('pages until a short page', async () => {
+      const fyso = await client(recordsHandler(5));
+
+      const pages: number[] = [];
+      for await (const page of fyso.paginateRecords('patients', {}, 2)) pages.push(page.length);
+
+      assert.deepEqual(pages, [2, 2, 1]);
+      assert.deepEqual(pageQueries(), ['limit=2&offset=0', 'limit=2&offset=2', 'limit=2&offset=4']);
+    });
+
+    it('asks only for the records still missing when capped', async () => {
+      const fyso = await client(recordsHandler(50));
+
+      const pages: number[] = [];
+      for await (const page of fyso.paginateRecords('patients', {}, 3, 5)) pages.push(page.length);
+
+      assert.deepEqual(pages, [3, 2]);
+      assert.deepEqual(pageQueries(), ['limit=3&offset=0', 'limit=2&offset=3']);
+    });
+  });
+
+  describe('search fallback', () => {
+    const records = [
+      { id: '1', name: 'Juan Pérez Gómez' },
+      { id: '2', name: 'Ana Pérez' },
+      { id: '3', name: 'Juan Pérez', city: 'Rosario' },
+      { id: '4', first: 'Juan', last: 'Pérez' },
+      { id: '5', name: 'juan pérez', nickname: 'JUAN PÉREZ' },
+    ];
+    const ids = (matches: IDataObject[]) => matches.map((record) => record.id);
+
+    it('keeps records holding every term, ranking values equal to the whole query first', async () => {
+      const fyso = await client(withoutEndpoint('search', records));
+
+      // 5 equals the query twice and 3 once; 1 and 4 only contain the terms and keep the entity's order.
+      assert.deepEqual(ids(await fyso.searchRecords('patients', 'Juan Pérez')), ['5', '3', '1', '4']);
+      assert.deepEqual(ids(await fyso.searchRecords('patients', 'Juan Pérez', { limit: 2 })), ['5', '3']);
+    });
+
+    it('only searches the given fields, and remembers the endpoint is missing', async () => {
+      const fyso = await client(withoutEndpoint('search', records));
+
+      assert.deepEqual(ids(await fyso.searchRecords('patients', 'juan', { fields: ['name'] })), ['1', '3', '5']);
+      assert.deepEqual(ids(await fyso.searchRecords('patients', 'rosario', { fields: ['name'] })), []);
+      assert.deepEqual(paths(), [
+        '/api/entities/patients/records/search',
+        '/api/entities/patients/records',
+        '/api/entities/patients/records',
+      ]);
+    });
+  });
+
+  describe('aggregate fallback', () => {
+    const invoices = [
+      { id: '1', status: 'open', total: 10, dueAt: '2026-01-05' },
+      { id: '2', status: 'open', total: '30', dueAt: '2026-01-02' },
+      { id: '3', status: 'paid', total: 5 },
+      { id: '4', status: 'open', total: null },
+      { id: '5', total: 7 },
+    ];
+
+    it('computes every function per group, counting records without a value', async () => {
+      const fyso = await client(withoutEndpoint('aggregate', invoices));
+
+      const results = await fyso.aggregateRecords('invoices', {
+        functions: ['count', 'sum', 'avg', 'min', 'max'],
+        field: 'total',
+        groupBy: 'status',
+      });
+
+      assert.deepEqual(results, [
+        { status: 'open', count: 3, sum: 40, avg: 20, min: 10, max: 30 },
+        { status: 'paid', count: 1, sum: 5, avg: 5, min: 5, max: 5 },
+        { status: null, count: 1, sum: 7, avg: 7, min: 7, max: 7 },
+      ]);
+      assert.deepEqual(
+        server?.requests.map((req) => decodeURIComponent(req.url)),
+        [
+          '/api/entities/invoices/records/aggregate?functions=count,sum,avg,min,max&field=total&groupBy=status',
+          '/api/entities/invoices/records?limit=100&offset=0&fields=id,total,status',
+        ],
+      );
+    });
+
+    it('compares text such as dates for minimum and maximum, with no average', async () => {
+      const fyso = await client(withoutEndpoint('aggregate', invoices));
+
+      assert.deepEqual(await fyso.aggregateRecords('invoices', { functions: ['min', 'max', 'avg'], field: 'dueAt' }), [
+        { min: '2026-01-02', max: '2026-01-05', avg: null },
+      ]);
+    });
+
+    it('returns one empty result for no records without grouping, and none with it', async () => {
+      const fyso = await client(withoutEndpoint('aggregate', []));
+
+      assert.deepEqual(await fyso.aggregateRecords('invoices', { functions: ['count', 'sum', 'max'], field: 'total' }), [
+        { count: 0, sum: 0, max: null },
+      ]);
+      assert.deepEqual(await fyso.aggregateRecords('invoices', { functions: ['count'], groupBy: 'status' }), []);
+    });
+  });
+
+  describe('version preconditions', () => {
+    const expected = { field: 'updatedAt', value: '2026-01-01T00:00:00Z' };
+    const current = { success: true, data: { id: '1', updatedAt: expected.value } };
+
+    it('sends the ETag the record was read with as If-Match', async () => {
+      const fyso = await client((req, res) => {
+        if (req.method === 'GET') return sendJson(res, 200, current, { ETag: '"v7"' });
+        sendData(res, { id: '1' });
+      });
+
+      await fyso.updateRecord('patients', '1', { name: 'Ana' }, { expected });
+
+      assert.deepEqual(
+        server?.requests.map((req) => [req.method, req.headers['if-match']]),
+        [
+          ['GET', undefined],
+          ['PUT', '"v7"'],
+        ],
+      );
+    });
+
+    it('sends no If-Match when Fyso returned no ETag', async () => {
+      const fyso = await client((req, res) => sendData(res, { id: '1', updatedAt: expected.value }));
+
+      await fyso.updateRecord('patients', '1', { name: 'Ana' }, { expected, partial: true });
+
+      assert.equal(server?.requests[1].method, 'PATCH');
+      assert.equal(server?.requests[1].headers['if-match'], undefined);
+    });
+
+    it('fails with a conflict when the version differs, without writing', async () => {
+      const fyso = await client((req, res) => sendData(res, { id: '1', updatedAt: '2026-02-01T00:00:00Z' }));
+
+      await assert.rejects(fyso.updateRecord('patients', '1', {}, { expected }), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '409');
+        assert.equal(error.message, 'Record 1 was changed since it was read');
+        return true;
+      });
+      assert.deepEqual(
+        server?.requests.map((req) => req.method),
+        ['GET'],
+      );
+    });
+
+    it('reports a failed If-Match as a conflict', async () => {
+      const fyso = await client((req, res) => {
+        if (req.method === 'GET') return sendJson(res, 200, current, { ETag: '"v7"' });
+        sendJson(res, 412, { success: false, error: 'Precondition failed' });
+      });
+
+      await assert.rejects(fyso.updateRecord('patients', '1', {}, { expected }), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '409');
+        return true;
+      });
+    });
+  });
+
+  describe('deletes', () => {
+    const trashed = { id: '1', deletedAt: '2026-03-01T00:00:00Z' };
+
+    it('asks for a soft delete explicitly and returns the trashed record', async () => {
+      const fyso = await client((req, res) => sendData(res, trashed));
+
+      assert.deepEqual(await fyso.deleteRecord('patients', '1', { permanent: false }), trashed);
+      assert.equal(server?.requests[0].url, '/api/entities/patients/records/1?permanent=false');
+    });
+
+    it('fails a soft delete that Fyso does not confirm', async () => {
+      const fyso = await client((req, res) => sendData(res, null));
+
+      await assert.rejects(fyso.deleteRecord('patients', '1', { permanent: false }), /may have been deleted permanently/);
+    });
+
+    it('leaves the mode to Fyso when none is given, as before Delete Mode existed', async () => {
+      const fyso = await client((req, res) => sendData(res, null));
+
+      await fyso.deleteRecord('patients', '1');
+      assert.equal(server?.requests[0].url, '/api/entities/patients/records/1');
+    });
+
+    it('needs no confirmation for a permanent delete', async () => {
+      const fyso = await client((req, res) => sendData(res, null));
+
+      await fyso.deleteRecord('patients', '1', { permanent: true });
+      assert.equal(server?.requests[0].url, '/api/entities/patients/records/1?permanent=true');
+    });
+
+    it('sends the mode with bulk deletes and fails entries that were not trashed', async () => {
+      const fyso = await client((req, res) => sendData(res, [{ success: true, data: trashed }, { success: true }]));
+
+      const results = await fyso.bulkRecords('patients', 'delete', [{ id: '1' }, { id: '2' }], { permanent: false });
+
+      assert.equal(JSON.parse(server?.requests[0].body ?? '').permanent, false);
+      assert.deepEqual(
+        results.map((result) => result.success),
+        [true, false],
+      );
+      assert.match(results[1].error ?? '', /may have been deleted permanently/);
+    });
+
+    it('refuses to delete more records than allowed, deleting none', async () => {
+      const fyso = await client((req, res) => sendData(res, [{ id: '1' }, { id: '2' }, { id: '3' }]));
+
+      await assert.rejects(
+        fyso.deleteRecords('patients', [{ field: 'status', operator: 'eq', value: 'old' }], 2),
+        /More than 2 patients records match the filters; nothing was deleted/,
+      );
+      assert.deepEqual(
+        server?.requests.map((req) => req.method),
+        ['GET'],
+      );
+    });
+  });
+
+  describe('bulk', () => {
+    it('sends a batch to the bulk endpoint and keeps the results in order', async () => {
+      const fyso = await client((req, res) =>
+        sendData(res, [
+          { success: true, data: { id: '1', name: 'Ana' } },
+          { success: false, error: 'Duplicate email' },
+        ]),
+      );
+
+      const entries = [{ data: { name: 'Ana' } }, { data: { name: 'Bo' } }];
+      const results = await fyso.bulkRecords('patients', 'create', entries);
+
+      assert.deepEqual(results, [
+        { success: true, record: { id: '1', name: 'Ana' }, error: undefined },
+        { success: false, record: undefined, error: 'Duplicate email' },
+      ]);
+      assert.equal(server?.requests.length, 1);
+      assert.deepEqual(JSON.parse(server?.requests[0].body ?? ''), {
+        operation: 'create',
+        records: [{ data: { name: 'Ana' } }, { data: { name: 'Bo' } }],
+      });
+    });
+
+    it('falls back to single requests when the bulk endpoint is missing, and remembers it', async () => {
+      const fyso = await client((req, res) => {
+        if (req.url.endsWith('/bulk')) return sendJson(res, 404, { success: false, error: 'Not found' });
+        if (req.url.endsWith('/records/2')) return sendJson(res, 422, { success: false, error: 'Locked' });
+        sendData(res, JSON.parse(req.body));
+      });
+
+      const entries = [
+        { id: '1', data: { name: 'Ana' } },
+        { id: '2', data: { name: 'Bo' } },
+      ];
+      const first = await fyso.bulkRecords('patients', 'update', entries, { concurrency: 1 });
+      await fyso.bulkRecords('patients', 'update', entries.slice(0, 1));
+
+      assert.deepEqual(first, [
+        { success: true, record: { name: 'Ana' } },
+        { success: false, error: 'Failed to update record 2: Locked' },
+      ]);
+      assert.deepEqual(
+        server?.requests.map((req) => `${req.method} ${req.url}`),
+        [
+          'POST /api/entities/patients/records/bulk',
+          'PUT /api/entities/patients/records/1',
+          'PUT /api/entities/patients/records/2',
+          'PUT /api/entities/patients/records/1',
+        ],
+      );
+    });
+  });
+
+  describe('authentication', () => {
+    it('logs in once and sends the tenant token', async () => {
+      const fyso = await client((req, res) => sendData(res, []));
+
+      await fyso.listEntities();
+      await fyso.listEntities();
+
+      assert.equal(server?.logins, 1);
+      assert.deepEqual(
+        server?.requests.map((req) => req.headers.authorization),
+        ['Bearer tenant-2', 'Bearer tenant-2'],
+      );
+    });
+
+    it('logs in again and repeats the request once after a 401', async () => {
+      const fyso = await client((req, res) => {
+        if (req.headers.authorization === 'Bearer tenant-2') {
+          return sendJson(res, 401, { success: false, error: 'Token expired' });
+        }
+        sendData(res, [{ name: 'patients' }]);
+      });
+
+      assert.deepEqual(await fyso.listEntities(), [{ name: 'patients' }]);
+      assert.equal(server?.logins, 2);
+      assert.deepEqual(
+        server?.requests.map((req) => req.headers.authorization),
+        ['Bearer tenant-2', 'Bearer tenant-4'],
+      );
+    });
+
+    it('does not retry a 401 for an API key', async () => {
+      const fyso = await client((req, res) => sendJson(res, 401, { success: false, error: 'Invalid key' }), {
+        authentication: 'apiKey',
+      });
+
+      await assert.rejects(fyso.listEntities(), (error: NodeApiError) => {
+        assert.equal(error.httpCode, '401');
+        return true;
+      });
+      assert.equal(server?.logins, 0);
+      assert.deepEqual(
+        server?.requests.map((req) => req.headers.authorization),
+        ['Bearer api-key'],
+      );
+    });
+  });
+});
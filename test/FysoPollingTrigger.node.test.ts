@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+
+import { FysoPollingTrigger } from '../nodes/FysoPollingTrigger/FysoPollingTrigger.node';
+import type { MockServer } from './helpers';
+import { mockContext, sendData, startMockServer } from './helpers';
+
+describe('FysoPollingTrigger', () => {
+  let server: MockServer;
+  let records: IDataObject[];
+  let staticData: IDataObject;
+
+  // Lists `records` like Fyso: `filter[updatedAt][gte]`, `sort`, `limit` and `offset`.
+  beforeEach(async () => {
+    records = [];
+    staticData = {};
+    server = await startMockServer((req, res) => {
+      const qs = new URL(req.url, 'http://fyso').searchParams;
+      const since = qs.get('filter[updatedAt][gte]');
+      const sort = qs.get('sort') ?? '';
+      const matching = records
+        .filter((r) => since === null || (r.updatedAt as string) >= since)
+        .sort((a, b) => ((a.updatedAt as string) < (b.updatedAt as string) ? -1 : 1));
+      if (sort.startsWith('-')) matching.reverse();
+      const offset = Number(qs.get('offset') ?? 0);
+      sendData(res, matching.slice(offset, offset + Number(qs.get('limit') ?? 100)));
+    });
+  });
+
+  afterEach(async () => await server.close());
+
+  async function pollItems(eventTypes = ['record.created', 'record.updated']): Promise<IDataObject[]> {
+    const context = mockContext(server.url, {
+      parameters: { tenantId: { value: 't1' }, entityName: { value: 'patients' }, eventTypes, options: {} },
+      staticData,
+    }) as unknown as IPollFunctions;
+    const result = await new FysoPollingTrigger().poll.call(context);
+    return result?.[0].map((item) => item.json) ?? [];
+  }
+
+  async function poll(eventTypes?: string[]): Promise<IDataObject[]> {
+    return (await pollItems(eventTypes)).map(({ event, recordId }) => ({ event, recordId }));
+  }
+
+  const record = (id: string, createdAt: string, updatedAt = createdAt) => ({ id, createdAt, updatedAt });
+
+  it('only stores the cursor on the first poll', async () => {
+    records = [record('1', '2026-01-01T00:00:00Z'), record('2', '2026-01-02T00:00:00Z')];
+
+    assert.deepEqual(await poll(), []);
+    assert.equal(staticData.cursor, '2026-01-02T00:00:00Z');
+    assert.deepEqual(staticData.cursorIds, ['2']);
+  });
+
+  it('emits records changed since the cursor, classified as created or updated', async () => {
+    records = [record('1', '2026-01-01T00:00:00Z'), record('2', '2026-01-02T00:00:00Z')];
+    await poll();
+
+    records[0].updatedAt = '2026-01-03T00:00:00Z';
+    records.push(record('3', '2026-01-04T00:00:00Z'));
+
+    assert.deepEqual(await poll(), [
+      { event: 'record.updated', recordId: '1' },
+      { event: 'record.created', recordId: '3' },
+    ]);
+    assert.equal(staticData.cursor, '2026-01-04T00:00:00Z');
+    assert.deepEqual(await poll(), []);
+  });
+
+  it('emits the Fyso Trigger\'s normalized shape, without a previous state', async () => {
+    records = [record('1', '2026-01-01T00:00:00Z')];
+    await poll();
+
+    records.push(record('2', '2026-01-02T00:00:00Z'));
+
+    assert.deepEqual(await pollItems(), [
+      {
+        event: 'record.created',
+        entity: 'patients',
+        recordId: '2',
+        tenantId: 't1',
+        occurredAt: '2026-01-02T00:00:00Z',
+        record: records[1],
+        changes: {},
+      },
+    ]);
+  });
+
+  it('does not repeat records at the cursor but catches new ones with the same timestamp', async () => {
+    records = [record('1', '2026-01-01T00:00:00Z')];
+    await poll();
+
+    records.push(record('2', '2026-01-01T00:00:00Z'));
+
+    assert.deepEqual(await poll(), [{ event: 'record.created', recordId: '2' }]);
+    assert.deepEqual(staticData.cursorIds, ['1', '2']);
+    assert.deepEqual(await poll(), []);
+  });
+
+  it('reports records that disappeared as deleted', async () => {
+    records = [record('1', '2026-01-01T00:00:00Z'), record('2', '2026-01-02T00:00:00Z')];
+    await poll(['record.deleted']);
+
+    records.shift();
+
+    assert.deepEqual(await poll(['record.deleted']), [{ event: 'record.deleted', recordId: '1' }]);
+    assert.deepEqual(staticData.knownIds, ['2']);
+  });
+
+  it('only rewrites the known IDs when they changed', async () => {
+    records = [record('1', '2026-01-01T00:00:00Z')];
+    await poll(['record.deleted']);
+    const knownIds = staticData.knownIds;
+
+    assert.deepEqual(await poll(['record.deleted']), []);
+    assert.equal(staticData.knownIds, knownIds);
+
+    records.push(record('2', '2026-01-02T00:00:00Z'));
+    await poll(['record.deleted']);
+    assert.deepEqual(staticData.knownIds, ['1', '2']);
+  });
+});
@@ -0,0 +1,232 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, it } from 'node:test';
+
+import type { IDataObject, IHookFunctions, IWebhookFunctions, IWebhookResponseData } from 'n8n-workflow';
+
+import { FysoTrigger } from '../nodes/FysoTrigger/FysoTrigger.node';
+import type { MockServer } from './helpers';
+import { mockContext, sendData, startMockServer } from './helpers';
+
+const SECRET = 'shh';
+
+interface Delivery {
+  body: unknown;
+  parameters?: IDataObject;
+  timestamp?: number;
+  /** Signs with another secret, or sends this literal signature. */
+  secret?: string;
+  signature?: string;
+}
+
+interface DeliveryResult {
+  status?: number;
+  response: IWebhookResponseData;
+  items: IDataObject[];
+}
+
+let deliveries = 0;
+
+/** Posts a delivery to the trigger's webhook, signed like Fyso signs it. */
+async function deliver({ body, parameters, timestamp, secret = SECRET, signature }: Delivery): Promise<DeliveryResult> {
+  // Every delivery differs from the previous ones, unless a test replays one on purpose.
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const ts = String(timestamp ?? Math.floor(Date.now() / 1000) - ++deliveries);
+  const headers = {
+    'x-fyso-timestamp': ts,
+    'x-fyso-signature': signature ?? createHmac('sha256', secret).update(`${ts}.`).update(rawBody).digest('hex'),
+  };
+
+  let status: number | undefined;
+  const res = {
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    send: () => res,
+    end: () => res,
+  };
+  const context = Object.assign(
+    mockContext('http://127.0.0.1:1', {
+      parameters: { watch: 'entity', entityName: { value: 'patients' }, options: {}, ...parameters },
+      staticData: { webhookSecret: SECRET },
+    }),
+    {
+      getRequestObject: () => ({ rawBody }),
+      getHeaderData: () => headers,
+      getBodyData: () => body,
+      getResponseObject: () => res,
+    },
+  ) as unknown as IWebhookFunctions;
+
+  const response = await new FysoTrigger().webhook.call(context);
+  return { status, response, items: response.workflowData?.[0].map((item) => item.json) ?? [] };
+}
+
+describe('FysoTrigger', () => {
+  describe('filters', () => {
+    /** Whether an update whose new record holds `value` passes a single condition. */
+    async function passes(value: unknown, operator: string, expected?: string, source = 'new'): Promise<boolean> {
+      const { items } = await deliver({
+        body: { event: 'record.updated', record: { id: '1', total: value }, previous: { id: '1', total: 'before' } },
+        parameters: { options: { conditions: { condition: [{ field: 'total', source, operator, value: expected }] } } },
+      });
+      return items.length === 1;
+    }
+
+    const cases: Array<[unknown, string, string | undefined, boolean]> = [
+      ['paid', 'eq', 'paid', true],
+      ['paid', 'eq', 'open', false],
+      ['paid', 'neq', 'open', true],
+      [9, 'gt', '10', false],
+      [11, 'gt', '10', true],
+      ['10', 'gte', '10', true],
+      [9, 'lt', '10', true],
+      ['2026-03-01', 'lte', '2026-02-28', false],
+      ['Jane Doe', 'contains', 'Doe', true],
+      ['b', 'in', 'a, b, c', true],
+      ['d', 'in', 'a, b, c', false],
+      [null, 'isNull', undefined, true],
+      ['', 'notNull', undefined, false],
+      [undefined, 'eq', '', true],
+      [undefined, 'neq', 'x', true],
+      [undefined, 'gt', '1', false],
+    ];
+    for (const [value, operator, expected, result] of cases) {
+      it(`${JSON.stringify(value)} ${operator} ${expected ?? ''} is ${result}`, async () => {
+        assert.equal(await passes(value, operator, expected), result);
+      });
+    }
+
+    it('compares numbers as numbers and other values as text', async () => {
+      assert.equal(await passes(100, 'gt', '9'), true);
+      assert.equal(await passes('b', 'gt', 'a'), true);
+    });
+
+    it('checks the previous value for old-value conditions', async () => {
+      assert.equal(await passes('after', 'eq', 'before', 'old'), true);
+      assert.equal(await passes('after', 'eq', 'after', 'old'), false);
+    });
+
+    it('only fires updates that change one of the watched fields', async () => {
+      const update = (changed: IDataObject) => ({
+        event: 'record.updated',
+        record: { id: '1', status: 'open', total: 1, ...changed },
+        previous: { id: '1', status: 'open', total: 1 },
+      });
+      const parameters = { options: { changedFields: ['status'] } };
+
+      assert.equal((await deliver({ body: update({ status: 'paid' }), parameters })).items.length, 1);
+      assert.equal((await deliver({ body: update({ total: 2 }), parameters })).items.length, 0);
+    });
+
+    it('checks watched fields against the changedFields list Fyso sends without a previous state', async () => {
+      const update = (changedFields: string[]) => ({ event: 'record.updated', record: { id: '1' }, changedFields });
+      const parameters = { options: { changedFields: ['status'] } };
+
+      assert.equal((await deliver({ body: update(['status']), parameters })).items.length, 1);
+      assert.equal((await deliver({ body: update(['total']), parameters })).items.length, 0);
+    });
+
+    it('passes updates that do not tell what changed, leaving Changed Fields to Fyso', async () => {
+      const body = { event: 'record.updated', entityName: 'patients', record: { id: '1', status: 'paid' } };
+
+      const { items } = await deliver({ body, parameters: { options: { changedFields: ['status'] } } });
+      assert.deepEqual(items, [body]);
+    });
+  });
+
+  describe('signatures', () => {
+    it('accepts a signed delivery', async () => {
+      const { status, items } = await deliver({ body: { event: 'record.created', record: { id: '1' } } });
+
+      assert.equal(status, undefined);
+      assert.equal(items.length, 1);
+    });
+
+    it('rejects a wrong signature or an old timestamp with 401', async () => {
+      const body = { event: 'record.created', record: { id: '1' } };
+
+      assert.equal((await deliver({ body, secret: 'guess' })).status, 401);
+      assert.equal((await deliver({ body, signature: '' })).status, 401);
+      assert.equal((await deliver({ body, timestamp: Math.floor(Date.now() / 1000) - 600 })).status, 401);
+    });
+
+    it('rejects a replayed delivery with 401', async () => {
+      const body = { event: 'record.created', record: { id: 'replayed' } };
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      const first = await deliver({ body, timestamp });
+      const replay = await deliver({ body, timestamp });
+
+      assert.equal(first.items.length, 1);
+      assert.equal(replay.status, 401);
+      assert.deepEqual(replay.response, { noWebhookResponse: true });
+    });
+  });
+
+  describe('subscriptions', () => {
+    const WEBHOOK_URL = 'https://n8n.example.com/webhook/fyso';
+    let server: MockServer | undefined;
+
+    afterEach(async () => {
+      await server?.close();
+      server = undefined;
+    });
+
+    /** Runs `checkExists` for a node tracking subscription `s1`, which Fyso lists as `subscription`. */
+    async function checkExists(subscription: IDataObject, options: IDataObject): Promise<boolean> {
+      server = await startMockServer((req, res) => {
+        if (req.method === 'GET') return sendData(res, [{ id: 's1', ...subscription }]);
+        if (req.method === 'PATCH') return sendData(res, { id: 's1' });
+      });
+      const context = Object.assign(
+        mockContext(server.url, {
+          parameters: {
+            tenantId: { value: 't1' },
+            watch: 'entity',
+            entityName: { value: 'patients' },
+            eventTypes: ['record.updated'],
+            options,
+          },
+          staticData: { webhookIds: { patients: 's1' }, webhookSecret: 'shh' },
+        }),
+        { getNodeWebhookUrl: () => WEBHOOK_URL },
+      ) as unknown as IHookFunctions;
+      return await new FysoTrigger().webhookMethods.default.checkExists.call(context);
+    }
+
+    const subscription = (filter?: IDataObject | null) => ({
+      entityName: 'patients',
+      eventTypes: ['record.updated'],
+      url: WEBHOOK_URL,
+      filter,
+    });
+    const patches = () => server?.requests.filter((req) => req.method === 'PATCH').map((req) => JSON.parse(req.body));
+
+    it('leaves a subscription alone when its events and filter match', async () => {
+      const options = { changedFields: ['status', 'total'] };
+      const filter = { changedFields: ['total', 'status'], conditions: [] };
+
+      assert.equal(await checkExists(subscription(filter), options), true);
+      assert.deepEqual(patches(), []);
+    });
+
+    it('updates the filter in place when only the filter changed', async () => {
+      const options = { conditions: { condition: [{ field: 'total', source: 'new', operator: 'gt', value: '10' }] } };
+
+      assert.equal(await checkExists(subscription(null), options), true);
+      assert.deepEqual(patches(), [
+        {
+          eventTypes: ['record.updated'],
+          filter: { changedFields: [], conditions: [{ field: 'total', source: 'new', operator: 'gt', value: '10' }] },
+        },
+      ]);
+    });
+
+    it('sends the filter again when Fyso does not report it', async () => {
+      assert.equal(await checkExists(subscription(), {}), true);
+      assert.equal(patches()?.length, 1);
+    });
+  });
+});
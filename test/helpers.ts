@@ -0,0 +1,133 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { IDataObject, IExecuteFunctions, INode } from 'n8n-workflow';
+
+import type { FysoContext } from '../nodes/shared/FysoClient';
+
+// ─── Mock Fyso server ─────────────────────────────────────────────────────────
+
+export interface MockRequest {
+  method: string;
+  /** Path and query string, e.g. `/api/entities/e/records?limit=2`. */
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** Answers a request; returning without writing a response falls through to a 404. */
+export type MockHandler = (req: MockRequest, res: ServerResponse) => void | Promise<void>;
+
+export interface MockServer {
+  url: string;
+  /** Every request except logins and tenant selections, in arrival order. */
+  requests: MockRequest[];
+  logins: number;
+  close(): Promise<void>;
+}
+
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/** Sends Fyso's `{ success: true, data }` envelope. */
+export function sendData(res: ServerResponse, data: unknown): void {
+  sendJson(res, 200, { success: true, data });
+}
+
+/**
+ * Starts a local HTTP server speaking the Fyso API. Logins return `session-<n>` and tenant
+ * selections `tenant-<n>`, counting up on every call so tests can tell fresh tokens apart.
+ */
+export async function startMockServer(handler: MockHandler): Promise<MockServer> {
+  let tokens = 0;
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', async () => {
+      const request: MockRequest = { method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body };
+      if (request.url === '/api/auth/login') {
+        mock.logins++;
+        return sendData(res, { token: `session-${++tokens}` });
+      }
+      if (/^\/api\/auth\/tenants\/[^/]+\/select$/.test(request.url)) {
+        return sendData(res, { token: `tenant-${++tokens}` });
+      }
+      mock.requests.push(request);
+      await handler(request, res);
+      if (!res.headersSent) {
+        sendJson(res, 404, { success: false, error: `No mock for ${request.method} ${request.url}` });
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const mock: MockServer = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: [],
+    logins: 0,
+    close: async () => await new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+  return mock;
+}
+
+// ─── Node context ─────────────────────────────────────────────────────────────
+
+export interface MockContextOptions {
+  authentication?: 'password' | 'apiKey';
+  /** Node parameters returned by `getNodeParameter`; a function gives an item's value from its index. */
+  parameters?: Record<string, unknown>;
+  /** The node's parameters as saved, e.g. with unresolved expressions; `parameters` by default. */
+  nodeParameters?: IDataObject;
+  nodeType?: string;
+  /** The node's version; the latest of the Fyso node by default. */
+  typeVersion?: number;
+  items?: IDataObject[];
+  continueOnFail?: boolean;
+  staticData?: IDataObject;
+}
+
+/**
+ * The subset of n8n's function contexts the Fyso nodes use, backed by plain values.
+ * Credentials point at `apiUrl`; the password credential is unique per server URL.
+ */
+export function mockContext(apiUrl: string, options: MockContextOptions = {}): IExecuteFunctions & FysoContext {
+  const authentication = options.authentication ?? 'password';
+  const parameters: Record<string, unknown> = { authentication, ...options.parameters };
+  const node: INode = {
+    id: 'test',
+    name: 'Fyso',
+    type: options.nodeType ?? 'n8n-nodes-fyso.fyso',
+    typeVersion: options.typeVersion ?? 1.1,
+    position: [0, 0],
+    parameters: (options.nodeParameters ?? parameters) as INode['parameters'],
+  };
+  const staticData = options.staticData ?? {};
+
+  const context = {
+    getNode: () => node,
+    getCredentials: async (name: string) =>
+      name === 'fysoTokenApi'
+        ? { apiUrl, apiKey: 'api-key' }
+        : { apiUrl, email: 'test@example.com', password: 'secret' },
+    // `execute` passes an item index before the fallback; the other contexts only the fallback.
+    getNodeParameter: (name: string, itemIndexOrFallback?: unknown, fallback?: unknown) => {
+      const itemIndex = typeof itemIndexOrFallback === 'number' ? itemIndexOrFallback : 0;
+      const value = parameters[name];
+      const itemValue = typeof value === 'function' ? (value as (index: number) => unknown)(itemIndex) : value;
+      return itemValue ?? (typeof itemIndexOrFallback === 'number' ? fallback : itemIndexOrFallback);
+    },
+    getInputData: () => (options.items ?? [{}]).map((json) => ({ json })),
+    continueOnFail: () => options.continueOnFail ?? false,
+    getWorkflowStaticData: () => staticData,
+    getMode: () => 'trigger',
+  };
+  return context as unknown as IExecuteFunctions & FysoContext;
+}